@@ -1,6 +1,15 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { GameState, Beatmap, ScoreData, BeatmapSet, SkinData, UserSettings, GameMode, Language } from './types';
-import { loadOsz, loadOsk } from './utils/beatmapParser';
+import { GameState, Beatmap, ScoreData, BeatmapSet, SkinData, UserSettings, GameMode, Language, Mod, Mods, Replay, ScoreRecord, Grade } from './types';
+import { loadOsk, releaseSkin } from './utils/skin';
+import { LibrarySet, StorageUsage, importOsz, calculateModdedDifficulty, getLibrarySets, loadLibraryBeatmaps, withAudio, deleteLibrarySet, clearLibrary, getStorageUsage } from './utils/library';
+import { MOD_LIST, hasMod, toggleMod, getModMultiplier, getModAcronyms, getSpeedMultiplier } from './utils/mods';
+import { timeStretch } from './utils/timeStretch';
+import { encodeOsr, decodeOsr } from './utils/replay';
+import { createScoreRecord, saveScore, getBeatmapScores, getLeaderboard, getPersonalBest, getScoreKey } from './utils/scores';
+import { getGrade } from './utils/scoring';
+import { MANIA_KEY_COUNTS, getManiaLayout } from './utils/mania';
+import { getGamepad, getGamepadButtonName, getPressedButtons } from './utils/gamepad';
+import { getPlayPerformance } from './utils/performance';
 import { DEFAULT_SETTINGS, TRANSLATIONS } from './constants';
 import GameCanvas from './components/GameCanvas';
 
@@ -14,6 +23,22 @@ const App: React.FC = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [activeSkin, setActiveSkin] = useState<SkinData | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Bumped on retry so GameCanvas remounts with a fresh play
+  const [playCount, setPlayCount] = useState(0);
+  const [selectedMods, setSelectedMods] = useState<Mods>(0);
+  // Song of the current play, time-stretched for DT/HT while the loading overlay is up
+  const [playAudio, setPlayAudio] = useState<AudioBuffer | null>(null);
+  // Replay of the last play, and the one being watched (null while playing normally)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [lastPerformance, setLastPerformance] = useState<ReturnType<typeof getPlayPerformance> | null>(null);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [librarySets, setLibrarySets] = useState<LibrarySet[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // Local scores of the selected set's difficulties, by score key
+  const [beatmapScores, setBeatmapScores] = useState<Record<string, ScoreRecord[]>>({});
+  // Difficulty whose leaderboard is shown, follows the hovered card
+  const [focusedMap, setFocusedMap] = useState<Beatmap | null>(null);
+  const [isNewBest, setIsNewBest] = useState(false);
   
   // Modals state
   const [showLanguageModal, setShowLanguageModal] = useState(false);
@@ -25,18 +50,31 @@ const App: React.FC = () => {
         const saved = localStorage.getItem('osu_settings');
         if (!saved) return DEFAULT_SETTINGS;
         const parsed = JSON.parse(saved);
+        // Older versions only had a 4K profile under keys.mania4k
+        const { mania4k, ...keys } = parsed.keys || {};
         // Merge with DEFAULT_SETTINGS to ensure new fields (like 'language') exist even if local storage is old
-        return { ...DEFAULT_SETTINGS, ...parsed };
+        return {
+          ...DEFAULT_SETTINGS,
+          ...parsed,
+          keys: { ...DEFAULT_SETTINGS.keys, ...keys },
+          maniaKeys: { ...DEFAULT_SETTINGS.maniaKeys, ...(mania4k ? { 4: mania4k } : {}), ...parsed.maniaKeys },
+          gamepad: { ...DEFAULT_SETTINGS.gamepad, ...parsed.gamepad },
+          maniaGamepad: { ...DEFAULT_SETTINGS.maniaGamepad, ...parsed.maniaGamepad }
+        };
     } catch (e) {
         console.warn("Failed to parse settings, resetting to defaults", e);
         return DEFAULT_SETTINGS;
     }
   });
 
-  const [awaitingKey, setAwaitingKey] = useState<{mode: keyof UserSettings['keys'], index: number} | null>(null);
+  const [awaitingKey, setAwaitingKey] = useState<{mode: keyof UserSettings['keys'] | 'mania', index: number, gamepad?: boolean} | null>(null);
+  // Key count whose mania bindings the settings show
+  const [maniaKeyCount, setManiaKeyCount] = useState(4);
 
   const audioCtxRef = useRef<AudioContext | null>(null);
   const previewSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Score of the play whose results are shown, so late pp from an earlier play is dropped
+  const finishedScoreRef = useRef<ScoreData | null>(null);
 
   // Translation helper - safely fallback to 'en' if language is missing
   const t = (key: keyof typeof TRANSLATIONS['en']) => {
@@ -70,6 +108,108 @@ const App: React.FC = () => {
       }
   };
 
+  // Restore the beatmap library from IndexedDB
+  useEffect(() => {
+    getLibrarySets().then(async sets => {
+      setLibrarySets(sets);
+      const maps = await loadLibraryBeatmaps(sets);
+      setAllBeatmaps(prev => [...prev, ...maps]);
+    });
+  }, []);
+
+  // A replaced skin's images are no longer drawn, free their blob URLs
+  useEffect(() => () => {
+    if (activeSkin) releaseSkin(activeSkin);
+  }, [activeSkin]);
+
+  useEffect(() => {
+    if (isSettingsOpen) getStorageUsage(librarySets).then(setStorageUsage);
+  }, [isSettingsOpen, librarySets]);
+
+  const refreshLibrary = async () => setLibrarySets(await getLibrarySets());
+
+  // A re-imported set replaces its old difficulties
+  const addBeatmaps = (maps: Beatmap[]) => {
+    const libraryIds = new Set(maps.map(m => m.libraryId));
+    const mapIds = new Set(maps.map(m => m.id));
+    setAllBeatmaps(prev => [...maps, ...prev.filter(m => !mapIds.has(m.id) && (!m.libraryId || !libraryIds.has(m.libraryId)))]);
+  };
+
+  const deleteSet = async (set: LibrarySet) => {
+    await deleteLibrarySet(set.id);
+    setAllBeatmaps(prev => prev.filter(m => m.libraryId !== set.id));
+    if (selectedSet?.difficulties.some(d => d.libraryId === set.id)) setSelectedSet(null);
+    refreshLibrary();
+  };
+
+  const clearAllSets = async () => {
+    if (!confirm(t('clearLibraryConfirm'))) return;
+    await clearLibrary();
+    setAllBeatmaps(prev => prev.filter(m => !m.libraryId));
+    setSelectedSet(null);
+    refreshLibrary();
+  };
+
+  useEffect(() => {
+    setFocusedMap(null);
+    if (!selectedSet) return;
+    let cancelled = false;
+    Promise.all(selectedSet.difficulties.map(async d => [getScoreKey(d), await getBeatmapScores(getScoreKey(d))] as const))
+      .then(entries => { if (!cancelled) setBeatmapScores(Object.fromEntries(entries)); });
+    return () => { cancelled = true; };
+  }, [selectedSet]);
+
+  const handleFinish = async (score: ScoreData, replay?: Replay) => {
+    setLastScore(score);
+    setLastReplay(replay || null);
+    setIsNewBest(false);
+    setLastPerformance(null);
+    setGameState(GameState.RESULTS);
+    finishedScoreRef.current = score;
+
+    // pp shows up once the difficulty with the play's mods is known, the score is kept without it if that fails
+    let performance: ReturnType<typeof getPlayPerformance> | null = null;
+    if (selectedMap) {
+      try {
+        performance = getPlayPerformance(selectedMap, score, await calculateModdedDifficulty(selectedMap, score.mods));
+        // A retry may have finished in the meantime
+        if (finishedScoreRef.current === score) setLastPerformance(performance);
+      } catch (e) {
+        console.warn("Could not calculate pp", e);
+      }
+    }
+
+    // Watched replays, fails and autoplay don't go into the history
+    if (activeReplay || !score.passed || hasMod(score.mods, Mod.Autoplay) || !selectedMap) return;
+    const key = getScoreKey(selectedMap);
+    const best = getPersonalBest(await getBeatmapScores(key), settings.playerName, settings.scoreVersion);
+    try {
+      await saveScore(createScoreRecord(selectedMap, score, settings.playerName, settings.scoreVersion, performance ? {
+        pp: performance.performance.total,
+        fullComboPp: performance.fullCombo.total
+      } : undefined));
+    } catch (e) {
+      console.warn("Could not save score", e);
+      return;
+    }
+    setIsNewBest(!best || score.totalScore > best.score.totalScore);
+    const scores = await getBeatmapScores(key);
+    setBeatmapScores(prev => ({ ...prev, [key]: scores }));
+  };
+
+  const getGradeColor = (grade: Grade) => {
+    switch (grade) {
+      case 'XH': case 'SH': return 'text-slate-200';
+      case 'SS': case 'S': return 'text-yellow-300';
+      case 'A': return 'text-green-400';
+      case 'B': return 'text-blue-400';
+      case 'C': return 'text-purple-400';
+      default: return 'text-red-400';
+    }
+  };
+
+  const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
   const getAudioCtx = () => {
     if (!audioCtxRef.current) {
       audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -89,22 +229,31 @@ const App: React.FC = () => {
     const fileArray = Array.from(files);
     const ctx = getAudioCtx();
     if (ctx.state === 'suspended') await ctx.resume();
+    // Maps from this drop aren't in allBeatmaps yet, replays dropped alongside them need them too
+    const loadedMaps: Beatmap[] = [];
     
     for (const file of fileArray) {
       const ext = file.name.toLowerCase().split('.').pop();
       try {
         if (ext === 'osz') {
-          const maps = await loadOsz(file, ctx);
-          setAllBeatmaps(prev => [...maps, ...prev]);
+          const maps = await importOsz(file);
+          loadedMaps.push(...maps);
+          addBeatmaps(maps);
         } else if (ext === 'osk') {
           const skin = await loadOsk(file);
           setActiveSkin(skin);
           console.log("Skin loaded successfully");
+        } else if (ext === 'osr') {
+          const replay = decodeOsr(new Uint8Array(await file.arrayBuffer()));
+          const map = [...loadedMaps, ...allBeatmaps].find(m => m.checksum === replay.beatmapHash);
+          if (map) watchReplay(replay, map);
+          else alert(t('replayMapMissing'));
         }
       } catch (err) {
         console.error("Error processing file:", file.name, err);
       }
     }
+    refreshLibrary();
     setIsLoading(false);
   };
 
@@ -137,7 +286,7 @@ const App: React.FC = () => {
                 if (response.ok) {
                     const blob = await response.blob();
                     const file = new File([blob], filename); 
-                    const maps = await loadOsz(file, ctx);
+                    const maps = await importOsz(file);
                     
                     if (maps.length > 0) {
                         newMaps.push(...maps);
@@ -152,7 +301,8 @@ const App: React.FC = () => {
         }
 
         if (newMaps.length > 0) {
-            setAllBeatmaps(prev => [...newMaps, ...prev]);
+            addBeatmaps(newMaps);
+            refreshLibrary();
             setTimeout(() => setGameState(GameState.SONG_SELECT), 100);
         } else {
             alert("No valid beatmaps found in the scanned files.");
@@ -184,40 +334,99 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (gameState !== GameState.SONG_SELECT) { stopPreview(); return; }
+    let cancelled = false;
     if (selectedSet && selectedSet.difficulties.length > 0) {
-      const bestMap = selectedSet.difficulties[0];
-      if (bestMap.audioBuffer) {
+      const ctx = getAudioCtx();
+      // Library sets decode their song on first preview
+      withAudio(selectedSet.difficulties[0], ctx).then(bestMap => {
+        if (cancelled || !bestMap.audioBuffer) return;
         stopPreview();
-        const ctx = getAudioCtx();
         const source = ctx.createBufferSource();
         source.buffer = bestMap.audioBuffer;
         source.connect(ctx.destination);
         source.loop = true;
         source.start(0, (bestMap.previewTime || 0) / 1000);
         previewSourceRef.current = source;
-      }
+      }).catch(err => console.warn("Could not load preview audio", err));
     }
-    return () => stopPreview();
+    return () => { cancelled = true; stopPreview(); };
   }, [selectedSet, gameState]);
 
   useEffect(() => {
-    if (!awaitingKey) return;
+    if (!awaitingKey || awaitingKey.gamepad) return;
     const handleKey = (e: KeyboardEvent) => {
       e.preventDefault();
+      const key = e.key === " " ? "Space" : e.key.toLowerCase();
       const newSettings = { ...settings };
-      newSettings.keys[awaitingKey.mode][awaitingKey.index] = e.key === " " ? "Space" : e.key.toLowerCase();
+      if (awaitingKey.mode === 'mania') {
+        const keys = [...newSettings.maniaKeys[maniaKeyCount]];
+        keys[awaitingKey.index] = key;
+        newSettings.maniaKeys = { ...newSettings.maniaKeys, [maniaKeyCount]: keys };
+      } else {
+        newSettings.keys[awaitingKey.mode][awaitingKey.index] = key;
+      }
       setSettings(newSettings);
       setAwaitingKey(null);
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [awaitingKey, settings]);
+  }, [awaitingKey, settings, maniaKeyCount]);
+
+  // Gamepad bindings take the first button pressed after clicking, buttons already held don't count
+  useEffect(() => {
+    if (!awaitingKey?.gamepad) return;
+    const bindButton = (button: number) => {
+      const newSettings = { ...settings };
+      if (awaitingKey.mode === 'mania') {
+        const buttons = [...newSettings.maniaGamepad[maniaKeyCount]];
+        buttons[awaitingKey.index] = button;
+        newSettings.maniaGamepad = { ...newSettings.maniaGamepad, [maniaKeyCount]: buttons };
+      } else {
+        newSettings.gamepad[awaitingKey.mode][awaitingKey.index] = button;
+      }
+      setSettings(newSettings);
+      setAwaitingKey(null);
+    };
+
+    const pad = getGamepad();
+    const held = new Set(pad ? getPressedButtons(pad) : []);
+    let frame = 0;
+    const poll = () => {
+      const pad = getGamepad();
+      const pressed = pad ? getPressedButtons(pad) : [];
+      const button = pressed.find(b => !held.has(b));
+      if (button !== undefined) return bindButton(button);
+      held.forEach(b => { if (!pressed.includes(b)) held.delete(b); });
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      bindButton(-1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [awaitingKey, settings, maniaKeyCount]);
+
+  const isAwaiting = (mode: string, index: number, gamepad = false) =>
+    awaitingKey?.mode === mode && awaitingKey.index === index && !!awaitingKey.gamepad === gamepad;
 
   const beatmapSets = useMemo(() => {
+    // Submitted maps group by their online set id, others by the archive they came from
+    const getSetKey = (m: Beatmap) => {
+      if (m.beatmapSetId && m.beatmapSetId > 0) return `set-${m.beatmapSetId}`;
+      if (m.libraryId) return `archive-${m.libraryId}`;
+      return `title-${m.artist}-${m.title}`;
+    };
     const sets: Record<string, BeatmapSet> = {};
     allBeatmaps.forEach(m => {
-      const key = `${m.artist}-${m.title}`;
-      if (!sets[key]) sets[key] = { title: m.title, artist: m.artist, creator: m.creator || "Unknown", backgroundUrl: m.backgroundUrl, difficulties: [] };
+      const key = getSetKey(m);
+      if (!sets[key]) sets[key] = { id: key, title: m.title, artist: m.artist, creator: m.creator || "Unknown", backgroundUrl: m.backgroundUrl, difficulties: [] };
       if (!sets[key].backgroundUrl && m.backgroundUrl) sets[key].backgroundUrl = m.backgroundUrl;
       sets[key].difficulties.push(m);
     });
@@ -231,12 +440,60 @@ const App: React.FC = () => {
     }
   }, [gameState, beatmapSets, selectedSet]);
 
-  const startMap = (map: Beatmap) => {
+  // NC plays the song faster as it is, DT/HT need a copy stretched to keep the pitch
+  const prepareAudio = async (map: Beatmap, mods: Mods, ctx: AudioContext) => {
+    if (!map.audioBuffer) throw new Error("Beatmap has no audio");
+    if (hasMod(mods, Mod.Nightcore)) return map.audioBuffer;
+    return timeStretch(ctx, map.audioBuffer, getSpeedMultiplier(mods));
+  };
+
+  const startMap = async (map: Beatmap) => {
+    stopPreview();
+    const ctx = getAudioCtx();
+    if (ctx.state === 'suspended') ctx.resume();
+    setIsLoading(true);
+    try {
+      const playable = await withAudio(map, ctx);
+      setPlayAudio(await prepareAudio(playable, selectedMods, ctx));
+      setSelectedMap(playable);
+      setActiveReplay(null);
+      setGameState(GameState.PLAYING);
+    } catch (err) {
+      console.error("Could not load beatmap audio", err);
+      alert(t('loadMapFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const watchReplay = async (replay: Replay, map: Beatmap) => {
     stopPreview();
     const ctx = getAudioCtx();
     if (ctx.state === 'suspended') ctx.resume();
-    setSelectedMap(map);
-    setGameState(GameState.PLAYING);
+    setIsLoading(true);
+    try {
+      const playable = await withAudio(map, ctx);
+      setPlayAudio(await prepareAudio(playable, replay.score.mods, ctx));
+      setSelectedMap(playable);
+      setActiveReplay(replay);
+      setPlayCount(c => c + 1);
+      setGameState(GameState.PLAYING);
+    } catch (err) {
+      console.error("Could not load beatmap audio", err);
+      alert(t('loadMapFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const exportReplay = (replay: Replay, map: Beatmap) => {
+    const url = URL.createObjectURL(new Blob([encodeOsr(replay)], { type: 'application/octet-stream' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${map.artist} - ${map.title} [${map.difficulty}] (${new Date(replay.timestamp).toISOString().slice(0, 10)}).osr`;
+    a.click();
+    // Some browsers start the download after click() returns and still need the blob then
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
   };
 
   const getModeIcon = (mode: GameMode) => {
@@ -248,6 +505,16 @@ const App: React.FC = () => {
     }
   };
 
+  // Judgement columns shown on the results screen, named the way each mode calls them
+  const getJudgementLabels = (mode: GameMode): [string, keyof ScoreData][] => {
+    switch(mode) {
+      case GameMode.TAIKO: return [['Great', 'count300'], ['Ok', 'count100'], ['Miss', 'countMiss']];
+      case GameMode.MANIA: return [['MAX', 'countGeki'], ['300', 'count300'], ['200', 'countKatu'], ['100', 'count100'], ['50', 'count50'], ['Miss', 'countMiss']];
+      case GameMode.CATCH: return [['Fruits', 'count300'], ['Drops', 'count100'], ['Droplets', 'count50'], ['Missed Droplets', 'countKatu'], ['Miss', 'countMiss']];
+      default: return [['300', 'count300'], ['100', 'count100'], ['50', 'count50'], ['Miss', 'countMiss']];
+    }
+  };
+
   return (
     <div 
       className="w-full h-screen bg-[#0d0d0d] text-white overflow-hidden font-['Exo_2']"
@@ -361,9 +628,61 @@ const App: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Player Name */}
+                    <div className="bg-white/5 p-4 rounded-2xl border border-white/10">
+                        <h4 className="text-xl font-black italic text-pink-300 uppercase mb-3">{t('playerName')}</h4>
+                        <input value={settings.playerName} maxLength={32} onChange={(e) => setSettings(p => ({...p, playerName: e.target.value}))} onBlur={() => setSettings(p => ({...p, playerName: p.playerName.trim() || DEFAULT_SETTINGS.playerName}))} className="w-full bg-black/40 border border-white/10 focus:border-pink-500 outline-none rounded-xl px-4 py-3 font-bold" />
+                    </div>
+
+                    {/* Scoring Settings */}
+                    <div className="bg-white/5 p-4 rounded-2xl border border-white/10">
+                        <h4 className="text-xl font-black italic text-pink-300 uppercase mb-3">{t('scoring')}</h4>
+                        <div className="flex gap-4">
+                            <button onClick={() => setSettings(p => ({...p, scoreVersion: 'v1'}))} className={`flex-1 py-3 rounded-xl font-bold uppercase transition-all ${settings.scoreVersion === 'v1' ? 'bg-pink-600 text-white shadow-lg' : 'bg-black/40 text-white/50 hover:bg-white/10'}`}>ScoreV1</button>
+                            <button onClick={() => setSettings(p => ({...p, scoreVersion: 'v2'}))} className={`flex-1 py-3 rounded-xl font-bold uppercase transition-all ${settings.scoreVersion === 'v2' ? 'bg-pink-600 text-white shadow-lg' : 'bg-black/40 text-white/50 hover:bg-white/10'}`}>ScoreV2</button>
+                        </div>
+                    </div>
+
+                    {/* Catch Input */}
+                    <div className="bg-white/5 p-4 rounded-2xl border border-white/10">
+                        <h4 className="text-xl font-black italic text-pink-300 uppercase mb-3">{t('catchInput')}</h4>
+                        <div className="flex gap-4">
+                            <button onClick={() => setSettings(p => ({...p, catchInput: 'keyboard'}))} className={`flex-1 py-3 rounded-xl font-bold uppercase transition-all ${settings.catchInput === 'keyboard' ? 'bg-pink-600 text-white shadow-lg' : 'bg-black/40 text-white/50 hover:bg-white/10'}`}>{t('catchInputKeyboard')}</button>
+                            <button onClick={() => setSettings(p => ({...p, catchInput: 'pointer'}))} className={`flex-1 py-3 rounded-xl font-bold uppercase transition-all ${settings.catchInput === 'pointer' ? 'bg-pink-600 text-white shadow-lg' : 'bg-black/40 text-white/50 hover:bg-white/10'}`}>{t('catchInputPointer')}</button>
+                        </div>
+                        {settings.catchInput === 'pointer' && <p className="mt-3 text-xs font-bold text-white/40">{t('catchInputHint')}</p>}
+                    </div>
+
+                    {/* Library */}
+                    <div className="bg-white/5 p-4 rounded-2xl border border-white/10">
+                        <div className="flex items-center justify-between mb-3">
+                            <h4 className="text-xl font-black italic text-pink-300 uppercase">{t('library')}</h4>
+                            <button onClick={clearAllSets} disabled={librarySets.length === 0} className="px-4 py-2 rounded-xl font-bold uppercase text-sm bg-black/40 text-white/60 hover:bg-red-600 hover:text-white transition-all disabled:opacity-30 disabled:pointer-events-none">{t('clearLibrary')}</button>
+                        </div>
+                        <p className="text-xs font-bold text-white/40 uppercase tracking-widest mb-3">
+                            {t('storageUsed')}: {formatMB(storageUsage?.library ?? 0)}
+                            {storageUsage?.usage !== undefined && storageUsage?.quota !== undefined && ` (${formatMB(storageUsage.usage)} / ${formatMB(storageUsage.quota)})`}
+                        </p>
+                        <div className="space-y-2 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+                            {librarySets.map(set => (
+                                <div key={set.id} className="flex items-center gap-3 bg-black/40 px-3 py-2 rounded-xl border border-white/5">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-bold truncate">{set.artist} - {set.title}</div>
+                                        <div className="text-[10px] text-white/30 font-bold uppercase">{set.osuFiles.length} diffs · {formatMB(set.size)}</div>
+                                    </div>
+                                    <button onClick={() => deleteSet(set)} title={t('deleteSet')} className="text-white/40 hover:text-red-500 transition-colors p-1">
+                                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+                                    </button>
+                                </div>
+                            ))}
+                            {librarySets.length === 0 && <p className="text-sm text-white/30 italic">{t('noMaps')}</p>}
+                        </div>
+                    </div>
+
                     {/* Keys Settings */}
                     <div>
-                        <h4 className="text-2xl font-black italic text-white/80 uppercase mb-4 text-center">{t('keys')}</h4>
+                        <h4 className="text-2xl font-black italic text-white/80 uppercase mb-2 text-center">{t('keys')}</h4>
+                        <p className="text-xs font-bold text-white/40 text-center mb-4">{t('gamepadHint')}</p>
                         <div className="space-y-4">
                         {Object.entries(settings.keys).map(([mode, keys]) => (
                         <div key={mode} className="bg-white/5 p-4 rounded-2xl border border-white/10">
@@ -374,17 +693,78 @@ const App: React.FC = () => {
                                 key={i} 
                                 onClick={() => setAwaitingKey({mode: mode as any, index: i})}
                                 className={`flex-1 min-w-[60px] p-3 rounded-xl border transition-all uppercase font-bold text-sm ${
-                                    awaitingKey?.mode === mode && awaitingKey?.index === i 
+                                    isAwaiting(mode, i)
                                     ? 'bg-pink-500 border-white text-white' 
                                     : 'bg-black/40 border-white/10 hover:border-pink-500 text-white/80'
                                 }`}
                                 >
-                                {awaitingKey?.mode === mode && awaitingKey?.index === i ? '???' : key}
+                                {isAwaiting(mode, i) ? '???' : key}
+                                </button>
+                            ))}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                            <span className="w-full text-[10px] font-black text-white/30 uppercase tracking-widest">{t('gamepad')}</span>
+                            {settings.gamepad[mode as keyof UserSettings['gamepad']].map((button, i) => (
+                                <button
+                                key={i}
+                                onClick={() => setAwaitingKey({mode: mode as keyof UserSettings['gamepad'], index: i, gamepad: true})}
+                                className={`flex-1 min-w-[60px] p-2 rounded-xl border transition-all font-bold text-xs ${
+                                    isAwaiting(mode, i, true)
+                                    ? 'bg-pink-500 border-white text-white'
+                                    : 'bg-black/20 border-white/5 hover:border-pink-500 text-white/60'
+                                }`}
+                                >
+                                {isAwaiting(mode, i, true) ? '???' : getGamepadButtonName(button)}
                                 </button>
                             ))}
                             </div>
                         </div>
                         ))}
+                        <div className="bg-white/5 p-4 rounded-2xl border border-white/10">
+                            <h4 className="text-xl font-black italic text-pink-300 uppercase mb-3">mania</h4>
+                            <div className="flex flex-wrap gap-1 mb-3">
+                            {MANIA_KEY_COUNTS.map(count => (
+                                <button
+                                key={count}
+                                onClick={() => { setManiaKeyCount(count); setAwaitingKey(null); }}
+                                className={`px-2 py-1 rounded-lg text-xs font-black transition-all ${maniaKeyCount === count ? 'bg-pink-500 text-white' : 'bg-black/40 text-white/50 hover:text-white'}`}
+                                >
+                                {count}K
+                                </button>
+                            ))}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                            {settings.maniaKeys[maniaKeyCount].map((key, i) => (
+                                <button
+                                key={i}
+                                onClick={() => setAwaitingKey({mode: 'mania', index: i})}
+                                className={`flex-1 min-w-[40px] p-3 rounded-xl border transition-all uppercase font-bold text-sm ${
+                                    isAwaiting('mania', i)
+                                    ? 'bg-pink-500 border-white text-white'
+                                    : 'bg-black/40 border-white/10 hover:border-pink-500 text-white/80'
+                                }`}
+                                >
+                                {isAwaiting('mania', i) ? '???' : key}
+                                </button>
+                            ))}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                            <span className="w-full text-[10px] font-black text-white/30 uppercase tracking-widest">{t('gamepad')}</span>
+                            {settings.maniaGamepad[maniaKeyCount].map((button, i) => (
+                                <button
+                                key={i}
+                                onClick={() => setAwaitingKey({mode: 'mania', index: i, gamepad: true})}
+                                className={`flex-1 min-w-[40px] p-2 rounded-xl border transition-all font-bold text-xs ${
+                                    isAwaiting('mania', i, true)
+                                    ? 'bg-pink-500 border-white text-white'
+                                    : 'bg-black/20 border-white/5 hover:border-pink-500 text-white/60'
+                                }`}
+                                >
+                                {isAwaiting('mania', i, true) ? '???' : getGamepadButtonName(button)}
+                                </button>
+                            ))}
+                            </div>
+                        </div>
                         </div>
                     </div>
                  </div>
@@ -427,26 +807,105 @@ const App: React.FC = () => {
                   <p className="text-sm text-white/40 font-bold italic mb-8 uppercase tracking-widest">{t('mapBy')} {selectedSet.creator}</p>
                   <div className="space-y-4 max-h-[40vh] overflow-y-auto pr-4 custom-scrollbar">
                     {selectedSet.difficulties.map(d => (
-                      <div key={d.id} onClick={() => startMap(d)} className={`group p-4 rounded-xl cursor-pointer transition-all border ${selectedMap?.id === d.id ? 'bg-pink-600 border-pink-400 shadow-lg' : 'bg-white/5 border-white/5 hover:bg-white/10 hover:translate-x-2'}`}>
+                      <div key={d.id} onClick={() => startMap(d)} onMouseEnter={() => setFocusedMap(d)} className={`group p-4 rounded-xl cursor-pointer transition-all border ${selectedMap?.id === d.id ? 'bg-pink-600 border-pink-400 shadow-lg' : 'bg-white/5 border-white/5 hover:bg-white/10 hover:translate-x-2'}`}>
                          <div className="flex justify-between items-center">
                             <div className="flex items-center gap-3">
                               <span className="text-2xl opacity-70 group-hover:opacity-100 transition-opacity" title={GameMode[d.mode]}>{getModeIcon(d.mode)}</span>
                               <span className="font-black italic text-xl">{d.difficulty}</span>
                             </div>
-                            <span className="text-xs bg-black/30 px-2 py-1 rounded">★ {d.difficultyValue.toFixed(2)}</span>
+                            <div className="flex items-center gap-2">
+                              {(() => {
+                                const best = getPersonalBest(beatmapScores[getScoreKey(d)] || [], settings.playerName, settings.scoreVersion);
+                                return best && <span className={`font-black italic text-lg ${getGradeColor(best.grade)}`} title={`${t('personalBest')}: ${best.score.totalScore.toLocaleString()}`}>{best.grade}</span>;
+                              })()}
+                              <span className="text-xs bg-black/30 px-2 py-1 rounded">★ {d.difficultyAttributes ? d.difficultyValue.toFixed(2) : '-'}</span>
+                            </div>
                          </div>
+                         {d.difficultyAttributes && (
+                           <div className="mt-2 text-[10px] font-mono opacity-60 flex flex-wrap gap-x-3">
+                             {d.mode === GameMode.STANDARD && (
+                               <>
+                                 <span>{t('aim')} {d.difficultyAttributes.aimRating.toFixed(2)}</span>
+                                 <span>{t('speed')} {d.difficultyAttributes.speedRating.toFixed(2)}</span>
+                               </>
+                             )}
+                             <span>{d.mode === GameMode.MANIA ? `${getManiaLayout(d.circleSize).keys}K` : `CS ${d.circleSize}`}</span>
+                             <span>AR {d.approachRate}</span>
+                             <span>OD {d.overallDifficulty}</span>
+                             <span>{d.difficultyAttributes.maxCombo}x</span>
+                           </div>
+                         )}
                       </div>
                     ))}
                   </div>
+                  {(() => {
+                    const boardMap = focusedMap || selectedSet.difficulties[0];
+                    if (!boardMap) return null;
+                    const scores = beatmapScores[getScoreKey(boardMap)] || [];
+                    const leaderboard = getLeaderboard(scores, settings.scoreVersion);
+                    const personalBest = getPersonalBest(scores, settings.playerName, settings.scoreVersion);
+                    return (
+                      <div className="mt-6 bg-black/40 p-4 rounded-2xl border border-white/10">
+                        <div className="flex justify-between items-center mb-3 gap-4">
+                          <h4 className="text-sm font-black italic text-pink-300 uppercase tracking-widest">{t('leaderboard')}</h4>
+                          <span className="text-xs font-bold text-white/60 truncate">{boardMap.difficulty}</span>
+                        </div>
+                        {personalBest && (
+                          <div className="flex items-center gap-3 bg-pink-600/20 border border-pink-500/40 px-3 py-2 rounded-xl mb-3">
+                            <span className="text-[10px] font-black uppercase tracking-widest text-pink-300">{t('personalBest')}</span>
+                            <span className={`font-black italic ${getGradeColor(personalBest.grade)}`}>{personalBest.grade}</span>
+                            <span className="font-black italic">{personalBest.score.totalScore.toLocaleString()}</span>
+                            <span className="text-xs text-white/60 ml-auto">
+                              {personalBest.score.accuracy.toFixed(2)}% · {personalBest.score.maxCombo}x
+                              {personalBest.pp !== undefined && ` · ${Math.round(personalBest.pp)}pp`}
+                            </span>
+                          </div>
+                        )}
+                        <div className="space-y-1 max-h-[20vh] overflow-y-auto pr-2 custom-scrollbar">
+                          {leaderboard.map((s, i) => (
+                            <div key={s.id} title={new Date(s.timestamp).toLocaleString()} className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-sm ${s.id === personalBest?.id ? 'bg-white/10' : 'bg-white/5'}`}>
+                              <span className="w-6 text-white/40 font-bold">#{i + 1}</span>
+                              <span className={`w-6 font-black italic ${getGradeColor(s.grade)}`}>{s.grade}</span>
+                              <span className="flex-1 font-bold truncate">{s.playerName}</span>
+                              {s.score.mods !== 0 && <span className="text-[10px] font-black text-pink-300">{getModAcronyms(s.score.mods).join('')}</span>}
+                              <span className="font-black italic tabular-nums">{s.score.totalScore.toLocaleString()}</span>
+                              <span className="w-16 text-right text-white/60 tabular-nums">{s.score.accuracy.toFixed(2)}%</span>
+                              <span className="w-24 text-right text-yellow-300/80 tabular-nums" title={s.fullComboPp !== undefined ? `${t('ifFullCombo')}: ${Math.round(s.fullComboPp)}pp` : undefined}>
+                                {s.pp !== undefined ? `${Math.round(s.pp)}pp` : '-'}
+                                {s.fullComboPp !== undefined && s.pp !== undefined && Math.round(s.fullComboPp) > Math.round(s.pp) && (
+                                  <span className="text-[10px] text-white/40"> /{Math.round(s.fullComboPp)}</span>
+                                )}
+                              </span>
+                            </div>
+                          ))}
+                          {leaderboard.length === 0 && <p className="text-sm text-white/30 italic">{t('noScores')}</p>}
+                        </div>
+                      </div>
+                    );
+                  })()}
                </div>
              ) : (
                <div className="text-white/20 text-xl font-black italic">{t('selectMap')}</div>
              )}
 
-             <div className="mt-12 flex flex-col gap-4">
+             <div className="mt-8 bg-black/40 p-4 rounded-2xl border border-white/10">
+                <div className="flex justify-between items-center mb-3">
+                   <h4 className="text-sm font-black italic text-pink-300 uppercase tracking-widest">{t('mods')}</h4>
+                   <span className="text-xs font-bold text-white/60">{t('scoreMultiplier')}: {getModMultiplier(selectedMods).toFixed(2)}x</span>
+                </div>
+                <div className="grid grid-cols-6 gap-2">
+                   {MOD_LIST.filter(m => !m.automatic).map(m => (
+                      <button key={m.mod} title={m.name} onClick={() => setSelectedMods(prev => toggleMod(prev, m.mod))} className={`py-2 rounded-lg font-black italic text-sm transition-all border ${hasMod(selectedMods, m.mod) ? 'bg-pink-600 border-pink-400 text-white shadow-lg scale-105' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}>
+                         {m.acronym}
+                      </button>
+                   ))}
+                </div>
+             </div>
+
+             <div className="mt-8 flex flex-col gap-4">
                 <label className="bg-pink-600 hover:bg-pink-500 p-4 rounded-2xl cursor-pointer text-center font-black italic transition-all shadow-lg active:scale-95 group">
                    <span className="group-hover:scale-110 inline-block transition-transform">{t('import')}</span>
-                   <input type="file" accept=".osz,.osk" multiple onChange={(e) => e.target.files && handleFiles(e.target.files)} className="hidden" />
+                   <input type="file" accept=".osz,.osk,.osr" multiple onChange={(e) => e.target.files && handleFiles(e.target.files)} className="hidden" />
                 </label>
                 <button onClick={() => setGameState(GameState.MAIN_MENU)} className="bg-white/5 hover:bg-white/10 p-4 rounded-2xl cursor-pointer text-center font-black italic transition-all border border-white/5 uppercase">{t('back')}</button>
              </div>
@@ -455,8 +914,8 @@ const App: React.FC = () => {
           <div className="w-2/3 h-full z-10 p-12 overflow-y-auto custom-scrollbar bg-black/20 backdrop-blur-sm">
              <div className="grid grid-cols-1 gap-4">
                 {isLoading && <div className="p-8 text-center text-pink-500 font-black italic animate-pulse text-2xl uppercase">{t('processing')}</div>}
-                {beatmapSets.map((set, i) => (
-                  <div key={i} onClick={() => { setSelectedSet(set); setSelectedMap(null); }} className={`group relative overflow-hidden rounded-2xl transition-all cursor-pointer ${selectedSet?.title === set.title ? 'ring-4 ring-pink-500 scale-[1.02] shadow-2xl' : 'hover:scale-[1.01] hover:bg-white/5'}`}>
+                {beatmapSets.map(set => (
+                  <div key={set.id} onClick={() => { setSelectedSet(set); setSelectedMap(null); }} className={`group relative overflow-hidden rounded-2xl transition-all cursor-pointer ${selectedSet?.id === set.id ? 'ring-4 ring-pink-500 scale-[1.02] shadow-2xl' : 'hover:scale-[1.01] hover:bg-white/5'}`}>
                     <div className="absolute inset-0 bg-cover bg-center opacity-30 group-hover:opacity-50 transition-opacity" style={{ backgroundImage: set.backgroundUrl ? `url(${set.backgroundUrl})` : 'none' }} />
                     <div className="absolute inset-0 bg-gradient-to-r from-black via-black/60 to-transparent" />
                     <div className="relative p-6 flex items-center gap-6">
@@ -482,13 +941,18 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {gameState === GameState.PLAYING && selectedMap && (
+      {gameState === GameState.PLAYING && selectedMap && playAudio && (
         <GameCanvas 
+          key={playCount}
           beatmap={selectedMap} 
           audioCtx={getAudioCtx()}
+          audio={playAudio}
           skin={activeSkin}
           settings={settings}
-          onFinish={(score) => { setLastScore(score); setGameState(GameState.RESULTS); }}
+          mods={activeReplay ? activeReplay.score.mods : selectedMods}
+          replay={activeReplay}
+          onFinish={handleFinish}
+          onRetry={() => setPlayCount(c => c + 1)}
           onBack={() => setGameState(GameState.SONG_SELECT)}
         />
       )}
@@ -496,8 +960,17 @@ const App: React.FC = () => {
       {gameState === GameState.RESULTS && lastScore && (
         <div className="h-full flex flex-col items-center justify-center bg-[#050505] p-8 animate-in fade-in zoom-in duration-500">
           <div className="bg-[#111] p-16 rounded-[4rem] border-4 border-pink-600 shadow-[0_0_100px_rgba(236,72,153,0.2)] w-full max-w-4xl">
-            <h2 className="text-8xl font-black italic text-center mb-16 text-pink-500 drop-shadow-lg tracking-tighter uppercase">{t('success')}</h2>
-            <div className="grid grid-cols-2 gap-12 mb-16">
+            <div className="flex items-center justify-center gap-10 mb-16">
+               {lastScore.passed && selectedMap && (() => {
+                  const grade = getGrade(lastScore, selectedMap.mode);
+                  return <div className={`text-9xl font-black italic drop-shadow-lg ${getGradeColor(grade)}`}>{grade}</div>;
+               })()}
+               <div className="flex flex-col items-center">
+                  <h2 className={`text-8xl font-black italic text-center drop-shadow-lg tracking-tighter uppercase ${lastScore.passed ? 'text-pink-500' : 'text-red-500'}`}>{lastScore.passed ? t('success') : t('failed')}</h2>
+                  {isNewBest && <div className="mt-2 bg-yellow-400 text-black px-4 py-1 rounded-lg font-black italic uppercase tracking-widest animate-pulse">{t('newBest')}</div>}
+               </div>
+            </div>
+            <div className={`grid gap-12 mb-16 ${lastPerformance ? 'grid-cols-3' : 'grid-cols-2'}`}>
                <div className="text-center">
                   <div className="text-8xl font-black italic text-white mb-2">{lastScore.totalScore.toLocaleString()}</div>
                   <div className="text-pink-400 font-black uppercase tracking-widest">{t('score')}</div>
@@ -506,7 +979,46 @@ const App: React.FC = () => {
                   <div className="text-8xl font-black italic text-pink-300 mb-2">{lastScore.accuracy.toFixed(2)}%</div>
                   <div className="text-pink-400 font-black uppercase tracking-widest">{t('accuracy')}</div>
                </div>
+               {lastPerformance && (
+                  <div className="text-center" title={`★ ${lastPerformance.attributes.starRating.toFixed(2)}`}>
+                     <div className="text-8xl font-black italic text-yellow-300 mb-2">{Math.round(lastPerformance.performance.total)}pp</div>
+                     <div className="text-pink-400 font-black uppercase tracking-widest">
+                        {t('performance')}
+                        {lastScore.maxCombo < lastPerformance.attributes.maxCombo && (
+                           <span className="ml-2 text-white/50 normal-case">({t('ifFullCombo')}: {Math.round(lastPerformance.fullCombo.total)}pp)</span>
+                        )}
+                     </div>
+                  </div>
+               )}
             </div>
+            {(lastScore.mods !== 0 || lastScore.catchInput || !!lastScore.pauseCount) && (
+               <div className="flex justify-center gap-2 mb-8">
+                  {getModAcronyms(lastScore.mods).map(acronym => (
+                     <span key={acronym} className="bg-pink-600 px-3 py-1 rounded-lg font-black italic">{acronym}</span>
+                  ))}
+                  {lastScore.mods !== 0 && <span className="bg-white/10 px-3 py-1 rounded-lg font-bold text-white/70">{lastScore.modMultiplier.toFixed(2)}x</span>}
+                  {lastScore.catchInput && <span className="bg-white/10 px-3 py-1 rounded-lg font-bold uppercase text-white/70">{t(lastScore.catchInput === 'pointer' ? 'catchInputPointer' : 'catchInputKeyboard')}</span>}
+                  {!!lastScore.pauseCount && <span className="bg-white/10 px-3 py-1 rounded-lg font-bold uppercase text-white/70">{t('pauses')}: {lastScore.pauseCount}</span>}
+               </div>
+            )}
+            <div className="flex justify-center gap-6 mb-12 text-center">
+               {getJudgementLabels(selectedMap?.mode ?? GameMode.STANDARD).map(([label, key]) => (
+                  <div key={label} className="bg-white/5 px-6 py-4 rounded-2xl border border-white/10 min-w-[100px]">
+                     <div className="text-4xl font-black italic text-white">{lastScore[key]}</div>
+                     <div className="text-pink-400 font-black uppercase text-sm">{label}</div>
+                  </div>
+               ))}
+               <div className="bg-white/5 px-6 py-4 rounded-2xl border border-white/10 min-w-[100px]">
+                  <div className="text-4xl font-black italic text-white">{lastScore.maxCombo}x</div>
+                  <div className="text-pink-400 font-black uppercase text-sm">Combo</div>
+               </div>
+            </div>
+            {lastReplay && selectedMap && (
+               <div className="grid grid-cols-2 gap-4 mb-6">
+                  <button onClick={() => watchReplay(lastReplay, selectedMap)} className="bg-white/10 hover:bg-white/20 py-4 rounded-2xl font-black italic text-xl transition-all uppercase">{t('watchReplay')}</button>
+                  <button onClick={() => exportReplay(lastReplay, selectedMap)} className="bg-white/10 hover:bg-white/20 py-4 rounded-2xl font-black italic text-xl transition-all uppercase">{t('exportReplay')}</button>
+               </div>
+            )}
             <button onClick={() => setGameState(GameState.SONG_SELECT)} className="w-full bg-pink-600 hover:bg-pink-500 py-8 rounded-3xl text-3xl font-black italic transition-all transform hover:scale-[1.02] active:scale-95 shadow-2xl uppercase">{t('continue')}</button>
           </div>
         </div>
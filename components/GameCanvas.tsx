@@ -1,19 +1,50 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Beatmap, ScoreData, HitObject, HitObjectType, SkinData, UserSettings, GameMode } from '../types';
-import { COLORS, HIT_WINDOW_300, HIT_WINDOW_100, HIT_WINDOW_50, TRANSLATIONS } from '../constants';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Beatmap, Colour, ScoreData, HitObject, HitObjectType, HitSound, SkinData, UserSettings, GameMode, HitResult, Mod, Mods, Replay, ReplayButton, ReplayFrame } from '../types';
+import { COLORS, TRANSLATIONS } from '../constants';
+import { getHitWindows, judgeHit, hasExpired, getLatestHitWindow, getApproachTime, getSliderResult, getHoldReleaseWindow, getHoldResult, getJudgementName, getSpinnerRequiredSpins, getSpinnerResult } from '../utils/judgement';
+import { createScoringContext, createScoringState, applyHitResult } from '../utils/scoring';
+import { MAX_HEALTH, getDrainRate, getHealthChange, clampHealth, getDrainPeriod, isDraining } from '../utils/health';
+import { hasMod, getModMultiplier, getSpeedMultiplier, applyModsToBeatmap, applyModsToObjects, isFailingJudgement } from '../utils/mods';
+import { getAutoplayFrame, getAutoplayCatcherX } from '../utils/autoplay';
+import { getSliderPositionAt, getSliderEndPosition, getSliderEvents, SliderEvent } from '../utils/sliderPath';
+import { createReplay } from '../utils/replay';
+import { getComboColours, getComboColour, getTintedImage, toCssColour } from '../utils/colours';
+import { Sprite, getAnimationFrames, getAnimationFrame, pruneSprites } from '../utils/sprites';
+import { DEFAULT_SKIN_CONFIG, getManiaConfig, getManiaColumnType, getManiaImageName } from '../utils/skin';
+import { getManiaLayout, getManiaColumn } from '../utils/mania';
+import { createCatchObjects, getCatcherWidth, getCatchRange, getHyperDashModifier, CATCHER_WALK_SPEED, CATCHER_DASH_SPEED } from '../utils/catch';
+import { TAIKO_STRONG_HIT_WINDOW, isTaikoRim, isTaikoStrong, getDrumrollTickSpacing, getDrumrollTickCount, getSwellRequiredHits } from '../utils/taiko';
+import { getGamepad, getPressedButtons, getStickX } from '../utils/gamepad';
+import { HitsoundBank, PlayedSample, loadHitsoundBank, getHitSamples, getSliderEdgeSamples, getSliderTickSamples, playSamples } from '../utils/hitsounds';
 
 interface GameCanvasProps {
   beatmap: Beatmap;
   audioCtx: AudioContext;
+  // The song to play, already time-stretched for DT/HT
+  audio: AudioBuffer;
   skin: SkinData | null;
   settings: UserSettings;
-  onFinish: (score: ScoreData) => void;
+  mods: Mods;
+  // When set, inputs come from the replay instead of the player
+  replay?: Replay | null;
+  onFinish: (score: ScoreData, replay?: Replay) => void;
+  onRetry: () => void;
   onBack: () => void;
 }
 
+// The pause menu, the countdown before the song goes on, and standard's wait for the cursor to be clicked
+type PausePhase = 'menu' | 'countdown' | 'cursor';
+
 const OSU_RES_X = 512;
 const OSU_RES_Y = 384;
 const AUDIO_OFFSET = 25; 
+// Seconds counted down before a paused play goes on
+const RESUME_COUNTDOWN = 3;
+// Replay buttons that count as a click in standard (smoke doesn't)
+const STANDARD_BUTTONS = ReplayButton.M1 | ReplayButton.M2 | ReplayButton.K1 | ReplayButton.K2;
+// Follow circle size relative to the circle radius, and how early the tail can be held (ms)
+const SLIDER_FOLLOW_RADIUS = 2.4;
+const SLIDER_TAIL_LENIENCY = 36;
 
 // Taiko Constants
 const TAIKO_NOTE_SIZE = 60;
@@ -25,14 +56,60 @@ const TAIKO_HIT_X = 260;
 // Mania Constants
 const MANIA_COL_WIDTH = 70;
 const MANIA_HIT_Y_OFFSET = 100; // Distance from bottom
+const MANIA_STAGE_GAP = 40; // Between the two stages of co-op maps
 
 // Catch Constants
 const CATCHER_Y_OFFSET = 340; // The collision line (top of the plate)
-const CATCH_BASE_SPEED = 0.7; // Base movement speed
-const CATCH_DASH_SPEED = 1.4; // Dash speed multiplier
 const CATCH_FRUIT_SCALE = 0.7; // Scale relative to circle size
 
 // Helper for smooth movement
+// Skin images are sized against these: hitcircle.png is 128px across, HUD and spinner elements assume a 768px high screen
+const SKIN_CIRCLE_SIZE = 128;
+const SKIN_SCREEN_HEIGHT = 768;
+const HIT_BURST_DURATION = 600;
+const FOLLOW_POINT_SPACING = 32;
+const WHITE: Colour = [255, 255, 255];
+
+// Judgement burst elements per mode, results without one (ticks, bonus, catch droplets) show nothing
+const HIT_BURST_IMAGES: Record<GameMode, Partial<Record<HitResult, string>>> = {
+  [GameMode.STANDARD]: { '300': 'hit300', '100': 'hit100', '50': 'hit50', miss: 'hit0' },
+  [GameMode.TAIKO]: { '300': 'taiko-hit300', '100': 'taiko-hit100', miss: 'taiko-hit0' },
+  [GameMode.CATCH]: { '300': 'hit300', miss: 'hit0' },
+  [GameMode.MANIA]: { MAX: 'mania-hit300g', '300': 'mania-hit300', '200': 'mania-hit200', '100': 'mania-hit100', '50': 'mania-hit50', miss: 'mania-hit0' }
+};
+const HIT_BURST_COLORS: Partial<Record<HitResult, string>> = {
+  MAX: COLORS.perfect, '300': COLORS.perfect, '200': COLORS.good, '100': COLORS.good, '50': COLORS.meh, miss: COLORS.miss
+};
+// Number font characters that aren't named after themselves
+const SKIN_FONT_CHARS: Record<string, string> = { ',': 'comma', '.': 'dot', '%': 'percent' };
+
+// Judgement burst for when the skin has none: a ring that widens and the judgement itself
+const drawDefaultBurst = (ctx: CanvasRenderingContext2D, mode: GameMode, result: HitResult, x: number, y: number, progress: number, scale: number) => {
+  const color = HIT_BURST_COLORS[result] || 'white';
+  if (result !== 'miss') {
+    ctx.beginPath(); ctx.arc(x, y, (20 + progress * 30) * scale, 0, Math.PI * 2);
+    ctx.strokeStyle = color; ctx.lineWidth = Math.max(0.5, 3 * scale * (1 - progress)); ctx.stroke();
+  }
+  ctx.fillStyle = color;
+  ctx.font = `bold ${Math.floor(18 * scale)}px "Exo 2"`;
+  ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+  ctx.fillText(getJudgementName(mode, result), x, y - progress * 10 * scale);
+};
+
+/** Text in one of the skin's number fonts, or plain text when the skin lacks any of its characters. */
+const SkinFontText: React.FC<{ skin: SkinData | null; prefix: string; overlap: number; text: string; height: number }> = ({ skin, prefix, overlap, text, height }) => {
+  const images = text.split('').map(c => skin?.images[`${prefix}-${SKIN_FONT_CHARS[c] || c}`]);
+  if (images.some(image => !image)) return <>{text}</>;
+  return (
+    <span className="inline-flex items-end">
+      {images.map((image, i) => <img key={i} src={image!.url} alt="" style={{ height, marginLeft: i > 0 ? -overlap : 0 }} />)}
+    </span>
+  );
+};
+
+// Bindings are saved as lower case keys, with the space bar as "Space"
+const toKeyName = (binding: string) => binding === 'Space' ? ' ' : binding.toLowerCase();
+
 const lerp = (start: number, end: number, factor: number) => {
   return start + (end - start) * factor;
 };
@@ -47,19 +124,31 @@ const getFruitColor = (_x: number, index: number) => {
     return { fill: '#ffaa44', border: '#cc6622', type: 'orange' }; 
 };
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settings, onFinish, onBack }) => {
+const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, audio, skin, settings, mods, replay, onFinish, onRetry, onBack }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const startTimeRef = useRef<number>(0);
   const lastFrameTime = useRef<number>(0);
   
-  const objects = useRef<HitObject[]>(JSON.parse(JSON.stringify(beatmap.objects)));
+  // Cloned once per play, the component re-renders on every judgement
+  const [playObjects] = useState(() => applyModsToObjects(JSON.parse(JSON.stringify(beatmap.objects)), beatmap.mode, mods));
+  const objects = useRef<HitObject[]>(playObjects);
   const nextHittableIndex = useRef<number>(0);
-  const scoreRef = useRef<ScoreData>({
-    totalScore: 0, combo: 0, maxCombo: 0, accuracy: 100,
-    count300: 0, count100: 0, count50: 0, countMiss: 0
-  });
+  const scoringState = useRef(createScoringState());
+  const scoreRef = useRef<ScoreData>(scoringState.current.score);
+  const healthRef = useRef<number>(MAX_HEALTH);
+  const hpBarRef = useRef<HTMLDivElement>(null);
+  const [isFailed, setIsFailed] = useState(false);
+
+  // Pausing suspends the AudioContext, which stops its clock and with it song time. The phase is
+  // kept in a ref as well for the draw loop and input handlers.
+  const [pausePhase, setPausePhase] = useState<PausePhase | null>(null);
+  const pauseRef = useRef<PausePhase | null>(null);
+  const pauseCount = useRef(0);
+  const [countdown, setCountdown] = useState(RESUME_COUNTDOWN);
+  // Where the standard cursor was when pausing, it has to be clicked there again to resume
+  const pausedCursor = useRef({ x: 0, y: 0 });
 
   const transform = useRef({ scale: 1, offsetX: 0, offsetY: 0 });
   
@@ -67,11 +156,16 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
   const mouseState = useRef({ x: window.innerWidth / 2, y: window.innerHeight / 2, isDown: false });
   const visualMouse = useRef({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
   const cursorHistory = useRef<{x: number, y: number, time: number}[]>([]);
-  const spinnerState = useRef({ currentAngle: 0, lastAngle: 0, totalRotation: 0, rpm: 0, lastTime: 0 });
+  // Set once a finger taps, the score then gets the Touch Device flag
+  const touchUsed = useRef(false);
+  const spinnerState = useRef({ currentAngle: 0, lastAngle: 0, rpm: 0, lastTime: 0 });
 
   // Taiko / Mania input
   const taikoDrumState = useRef({ leftInner: false, rightInner: false, leftOuter: false, rightOuter: false, lastHitTime: 0 });
-  const maniaKeyState = useRef<boolean[]>([false, false, false, false]);
+  // Last big note hit, waiting for the other key of its colour
+  const taikoStrongHit = useRef<{ keyType: 'inner' | 'outer'; side: 'left' | 'right'; time: number } | null>(null);
+  const maniaLayout = useMemo(() => getManiaLayout(beatmap.circleSize), [beatmap]);
+  const maniaKeyState = useRef<boolean[]>(new Array(maniaLayout.keys).fill(false));
 
   // Catch input & state
   const catcherState = useRef({ 
@@ -81,82 +175,132 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
     isMovingLeft: false, 
     isMovingRight: false, 
     isDashing: false,
+    // Pointer input: where the pointer is in osu! pixels, and whether a button or finger is down (which dashes)
+    pointerX: null as number | null,
+    isPointerDown: false,
+    // Gamepad: -1 to 1, full for the d-pad style bindings and as far as the stick is pushed otherwise
+    padMove: 0,
     direction: 1, // 1 right, -1 left
+    // Set while carried towards the target of a caught hyperdash fruit
+    hyperDash: null as { modifier: number; targetX: number; direction: number } | null,
   });
-  
-  // Banana Rain State
-  const activeBananas = useRef<{x: number, y: number, speed: number, caught: boolean, id: number}[]>([]);
-  const lastBananaSpawn = useRef<number>(0);
 
-  const skinImages = useRef<Record<string, HTMLImageElement>>({});
+  // Autoplay: song time of the last drumroll/spinner hit and when each mania key should be let go
+  const autoplayLastHit = useRef<number>(0);
+  const autoplayReleaseAt = useRef<number[]>(new Array(maniaLayout.keys).fill(0));
+
+  // Replays: buttons held in standard, frames recorded this play, and playback progress
+  const standardButtons = useRef<number>(0);
+  // What else holds M1/M2 down in standard: mouse buttons, fingers (pointer id -> button) and gamepad buttons
+  const standardHolds = useRef({ mouse: new Set<number>(), touches: new Map<number, number>(), gamepad: 0 });
+  // Gamepad buttons held at the last poll
+  const gamepadButtons = useRef(new Set<number>());
+  const recordedFrames = useRef<ReplayFrame[]>([]);
+  const replayIndex = useRef<number>(0);
+  const lastReplayFrame = useRef<ReplayFrame | null>(null);
+
+  // Hitsounds: decoded samples. Sliders: the next unjudged tick/repeat/tail of each started slider,
+  // and whether the ball is being followed
+  const hitsoundBank = useRef<HitsoundBank | null>(null);
+  const sliderEvents = useRef(new Map<HitObject, { events: SliderEvent[]; next: number; tracking: boolean; tailTracked: boolean }>());
+
+  // Skin element images by URL, loaded the first time they are drawn
+  const skinImages = useRef(new Map<string, HTMLImageElement>());
+  const skinConfig = skin?.config || DEFAULT_SKIN_CONFIG;
+  // Short-lived canvas effects such as judgement bursts, and where taiko/mania/catch show theirs
+  // (set by each mode's draw code)
+  const sprites = useRef<Sprite[]>([]);
+  const judgementAnchor = useRef({ x: 0, y: 0 });
+  const animations = useMemo(() => ({
+    sliderBall: getAnimationFrames(skin?.images, 'sliderb', ''),
+    followPoint: getAnimationFrames(skin?.images, 'followpoint')
+  }), [skin]);
   const [displayScore, setDisplayScore] = useState(scoreRef.current);
 
-  const getApproachTime = (ar: number) => {
-    if (ar < 5) return 1200 + 600 * (5 - ar) / 5;
-    if (ar === 5) return 1200;
-    return 1200 - 750 * (ar - 5) / 5;
-  };
-
-  const approachTime = getApproachTime(beatmap.approachRate);
-  const circleRadius = (54.4 - 4.48 * beatmap.circleSize);
+  // AR/CS/OD/HP after HR/EZ
+  const difficulty = useMemo(() => applyModsToBeatmap(beatmap, mods), [beatmap, mods]);
+  const comboColours = useMemo(() => getComboColours(beatmap.comboColours, skin?.config.comboColours), [beatmap, skin]);
+  const playbackSpeed = getSpeedMultiplier(mods);
+  const modMultiplier = getModMultiplier(mods);
+  const isAuto = hasMod(mods, Mod.Autoplay);
+  const isRelax = hasMod(mods, Mod.Relax);
+  const isHidden = hasMod(mods, Mod.Hidden);
+  const isFlashlight = hasMod(mods, Mod.Flashlight);
+  const canFail = !hasMod(mods, Mod.NoFail) && !isAuto;
+
+  const approachTime = getApproachTime(difficulty.approachRate);
+  const circleRadius = (54.4 - 4.48 * difficulty.circleSize);
+  const hitWindows = useMemo(() => getHitWindows(beatmap.mode, difficulty.overallDifficulty), [beatmap, difficulty]);
+  // Catch plays fruits, droplets and bananas made from the objects, nextHittableIndex points into these
+  const catchObjects = useMemo(() => beatmap.mode === GameMode.CATCH ? createCatchObjects(objects.current, difficulty.circleSize) : [], [beatmap, difficulty]);
+  const scoringContext = useMemo(() => createScoringContext(beatmap, settings.scoreVersion, modMultiplier), [beatmap, settings.scoreVersion, modMultiplier]);
+
+  // Song position in ms. DT/HT make the song, and with it gameplay, run faster or slower than the wall clock.
+  const getSongTime = () => (audioCtx.currentTime - startTimeRef.current) * 1000 * playbackSpeed - AUDIO_OFFSET;
 
   useEffect(() => {
      if (beatmap.mode === GameMode.CATCH) {
-         // CS calculation for Catch:
-         // CS 0 -> Width ~130
-         // CS 10 -> Width ~30
-         // This formula approximates osu! stable values
-         const scale = (1.0 - 0.7 * (beatmap.circleSize - 5) / 5);
-         catcherState.current.width = 100 * scale; 
+         catcherState.current.width = getCatcherWidth(difficulty.circleSize);
      }
-  }, [beatmap]);
+  }, [beatmap, difficulty]);
 
   // Scroll speeds
   const taikoScrollSpeed = (1.4 * beatmap.sliderMultiplier!) * 0.45; 
   const maniaScrollSpeed = (1.4 * beatmap.sliderMultiplier!) * 0.55;
 
   useEffect(() => {
-    if (!skin) return;
-    Object.entries(skin).forEach(([key, url]) => {
-      if (url) {
-        const img = new Image();
-        img.src = url as string;
-        skinImages.current[key] = img;
-      }
+    let cancelled = false;
+    loadHitsoundBank(audioCtx, beatmap.samples, skin?.samples).then(bank => {
+      if (!cancelled) hitsoundBank.current = bank;
     });
-  }, [skin]);
-
-  const updateScore = (points: number, hitType: '300' | '100' | '50' | 'miss') => {
-    const s = scoreRef.current;
-    let newCombo = hitType === 'miss' ? 0 : s.combo + 1;
-    const nextScore = {
-      ...s,
-      totalScore: s.totalScore + points * (newCombo || 1),
-      combo: newCombo,
-      maxCombo: Math.max(s.maxCombo, newCombo),
-      count300: s.count300 + (hitType === '300' ? 1 : 0),
-      count100: s.count100 + (hitType === '100' ? 1 : 0),
-      count50: s.count50 + (hitType === '50' ? 1 : 0),
-      countMiss: s.countMiss + (hitType === 'miss' ? 1 : 0),
-    };
-    const totalHits = nextScore.count300 + nextScore.count100 + nextScore.count50 + nextScore.countMiss;
-    nextScore.accuracy = totalHits > 0 
-      ? ((nextScore.count300 * 300 + nextScore.count100 * 100 + nextScore.count50 * 50) / (totalHits * 300)) * 100 
-      : 100;
-    scoreRef.current = nextScore;
-    setDisplayScore(nextScore);
+    return () => { cancelled = true; };
+  }, [audioCtx, beatmap, skin]);
+
+  const playHitsound = (samples: PlayedSample[]) => {
+    if (hitsoundBank.current) playSamples(audioCtx, hitsoundBank.current, samples, beatmap.mode);
+  };
+
+  // Head hitsound of any object, slider heads use their first edge sound
+  const playObjectHitsound = (obj: HitObject) => {
+    playHitsound(obj.type === HitObjectType.SLIDER ? getSliderEdgeSamples(beatmap, obj, 0, obj.time) : getHitSamples(beatmap, obj, obj.time));
+  };
+
+  // Judgement burst at a canvas position, animated if the skin has hit300-0.. frames
+  const spawnHitBurst = (result: HitResult, x: number, y: number, time: number) => {
+    const image = HIT_BURST_IMAGES[beatmap.mode][result];
+    if (!image) return;
+    sprites.current.push({
+      x, y,
+      startTime: time,
+      duration: HIT_BURST_DURATION,
+      frames: getAnimationFrames(skin?.images, image),
+      loop: false,
+      // Pops in, then fades out over the last third
+      scale: progress => 1 + Math.min(progress, 0.1),
+      alpha: progress => Math.max(0, Math.min(1, (1 - progress) * 3)),
+      fallback: (ctx, sx, sy, progress) => drawDefaultBurst(ctx, beatmap.mode, result, sx, sy, progress, transform.current.scale)
+    });
+  };
+
+  const updateScore = (hitType: HitResult) => {
+    scoringState.current = applyHitResult(scoringState.current, hitType, scoringContext);
+    scoreRef.current = scoringState.current.score;
+    healthRef.current = clampHealth(healthRef.current + getHealthChange(hitType, difficulty.hpDrainRate));
+    if (isFailingJudgement(mods, beatmap.mode, hitType)) healthRef.current = 0;
+    setDisplayScore(scoreRef.current);
+    // Standard places its bursts on the object itself
+    if (beatmap.mode !== GameMode.STANDARD) spawnHitBurst(hitType, judgementAnchor.current.x, judgementAnchor.current.y, getSongTime());
   };
 
   // --- STANDARD INPUT HANDLING ---
-  const handleStandardInput = useCallback((clientX: number, clientY: number) => {
-    const currentTime = (audioCtx.currentTime - startTimeRef.current) * 1000 - AUDIO_OFFSET;
+  const handleStandardInput = useCallback((clientX: number, clientY: number, currentTime: number) => {
     const t = transform.current;
     const list = objects.current;
     const searchLimit = Math.min(nextHittableIndex.current + 10, list.length);
 
     for (let i = nextHittableIndex.current; i < searchLimit; i++) {
       const obj = list[i];
-      if (obj.hit || obj.missed) continue;
+      if (obj.hit || obj.missed || obj.headJudged) continue;
       if (currentTime < obj.time - approachTime) break;
 
       const sx = obj.x * t.scale + t.offsetX;
@@ -165,88 +309,361 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
       const scaledRadius = circleRadius * t.scale * 1.5;
 
       if ((obj.type === HitObjectType.CIRCLE || obj.type === HitObjectType.SLIDER) && dist <= scaledRadius) {
-        const timeDiff = Math.abs(currentTime - obj.time);
-        if (timeDiff <= HIT_WINDOW_50) {
-          obj.hit = true;
-          if (timeDiff <= HIT_WINDOW_300) updateScore(300, '300');
-          else if (timeDiff <= HIT_WINDOW_100) updateScore(100, '100');
-          else updateScore(50, '50');
+        const result = judgeHit(hitWindows, currentTime - obj.time);
+        if (result && obj.type === HitObjectType.SLIDER) {
+          // Slider heads only count like a tick, the slider is judged as a whole at its end
+          obj.headJudged = true;
+          if (result !== 'miss') {
+            obj.sliderHits = (obj.sliderHits || 0) + 1;
+            playObjectHitsound(obj);
+          }
+          updateScore(result === 'miss' ? 'sliderTickMiss' : 'sliderTick');
+          return;
+        }
+        if (result) {
+          if (result === 'miss') obj.missed = true;
+          else {
+            obj.hit = true;
+            playObjectHitsound(obj);
+          }
+          updateScore(result);
+          spawnHitBurst(result, sx, sy, currentTime);
           return;
         }
       }
     }
-  }, [audioCtx, approachTime, circleRadius]);
+  }, [audioCtx, approachTime, circleRadius, hitWindows]);
 
   // --- TAIKO INPUT HANDLING ---
-  const handleTaikoInput = useCallback((keyType: 'inner' | 'outer') => {
-    const currentTime = (audioCtx.currentTime - startTimeRef.current) * 1000 - AUDIO_OFFSET;
+  const handleTaikoInput = useCallback((keyType: 'inner' | 'outer', side: 'left' | 'right', currentTime: number) => {
     const list = objects.current;
+
+    // The other key of a big note's colour right after the first one is a bonus, not a new hit
+    const strong = taikoStrongHit.current;
+    taikoStrongHit.current = null;
+    if (strong && strong.keyType === keyType && strong.side !== side && currentTime - strong.time <= TAIKO_STRONG_HIT_WINDOW) {
+        updateScore('bonus');
+        taikoDrumState.current.lastHitTime = Date.now();
+        return;
+    }
     
     for (let i = nextHittableIndex.current; i < list.length; i++) {
         const obj = list[i];
         if (obj.hit || obj.missed) continue;
         
-        if (obj.time - currentTime > HIT_WINDOW_50) break;
+        if (obj.time - currentTime > getLatestHitWindow(hitWindows)) break;
         
-        if (obj.type === HitObjectType.CIRCLE || obj.type === HitObjectType.SLIDER) {
-            const timeDiff = Math.abs(currentTime - obj.time);
+        if (obj.type === HitObjectType.CIRCLE) {
+            const result = judgeHit(hitWindows, currentTime - obj.time);
             
-            if (timeDiff <= HIT_WINDOW_50) {
-                const isBlue = (obj.hitSound & 2) || (obj.hitSound & 8);
+            if (result) {
+                const isBlue = isTaikoRim(obj);
                 const isRed = !isBlue;
 
-                if ((keyType === 'inner' && isRed) || (keyType === 'outer' && isBlue)) {
+                // The first note in its window takes the hit, the wrong colour misses it. Relax doesn't care which colour is hit.
+                const rightColour = isRelax || (keyType === 'inner' && isRed) || (keyType === 'outer' && isBlue);
+                if (result === 'miss' || !rightColour) {
+                    obj.missed = true;
+                    updateScore('miss');
+                } else {
                     obj.hit = true;
-                    if (timeDiff <= HIT_WINDOW_300) updateScore(300, '300');
-                    else if (timeDiff <= HIT_WINDOW_100) updateScore(100, '100');
-                    else updateScore(300, '300');
-                    taikoDrumState.current.lastHitTime = Date.now();
-                    return;
+                    playObjectHitsound(obj);
+                    if (isTaikoStrong(obj)) taikoStrongHit.current = { keyType, side, time: currentTime };
+                    updateScore(result);
                 }
-            } else if (currentTime > obj.time + HIT_WINDOW_50) {
+                taikoDrumState.current.lastHitTime = Date.now();
+                return;
+            } else if (hasExpired(hitWindows, currentTime - obj.time)) {
                 obj.missed = true;
-                updateScore(0, 'miss');
+                updateScore('miss');
             }
         }
+        else if (obj.type === HitObjectType.SLIDER) {
+            // Drumroll: any key scores the tick closest to the hit, once. Big drumrolls score double.
+            const spacing = getDrumrollTickSpacing(obj, beatmap.sliderTickRate);
+            const tick = spacing > 0 ? Math.round((currentTime - obj.time) / spacing) : 0;
+            if (tick < 0 || tick >= getDrumrollTickCount(obj, beatmap.sliderTickRate)) continue;
+            if (!obj.drumrollHits) obj.drumrollHits = new Set();
+            if (!obj.drumrollHits.has(tick)) {
+                obj.drumrollHits.add(tick);
+                playHitsound(getHitSamples(beatmap, obj, currentTime));
+                updateScore('bonus');
+                if (isTaikoStrong(obj)) updateScore('bonus');
+                taikoDrumState.current.lastHitTime = Date.now();
+            }
+            return;
+        }
         else if (obj.type === HitObjectType.SPINNER) {
              if (currentTime >= obj.time && currentTime <= obj.endTime) {
-                 updateScore(100, '100');
+                 // Swells take centre and rim hits in turn, repeats of the same colour do nothing
+                 if (!isRelax && obj.swellLastHit === keyType) return;
+                 obj.swellLastHit = keyType;
+                 obj.swellHits = (obj.swellHits || 0) + 1;
+                 playHitsound(getHitSamples(beatmap, obj, currentTime, keyType === 'outer' ? HitSound.Clap : 0));
+                 updateScore('bonus');
+                 if (obj.swellHits >= getSwellRequiredHits(obj, difficulty.overallDifficulty)) {
+                     // Finishing the swell is worth one more bonus
+                     obj.hit = true;
+                     updateScore('bonus');
+                 }
                  taikoDrumState.current.lastHitTime = Date.now();
                  return; 
              }
         }
     }
-  }, [audioCtx]);
+  }, [audioCtx, hitWindows, difficulty]);
 
   // --- MANIA INPUT HANDLING ---
-  const handleManiaInput = useCallback((columnIndex: number, isDown: boolean) => {
-    if (!isDown) return; 
-    const currentTime = (audioCtx.currentTime - startTimeRef.current) * 1000 - AUDIO_OFFSET;
+  const handleManiaInput = useCallback((columnIndex: number, isDown: boolean, currentTime: number) => {
     const list = objects.current;
 
+    // The hold note of this column whose head was pressed and that isn't judged yet
+    const findHold = (released: boolean) => list.slice(nextHittableIndex.current).find(obj =>
+      obj.type === HitObjectType.HOLD && obj.headJudged && !!obj.holdReleased === released && !obj.hit && !obj.missed
+      && getManiaColumn(obj.x, maniaLayout.keys) === columnIndex);
+
+    if (!isDown) {
+      // Letting go of a held note: close enough to its end judges it, earlier breaks combo
+      // and the hold can only get a 50 from then on
+      const held = findHold(false);
+      if (!held) return;
+      if (currentTime < held.endTime - getHoldReleaseWindow(hitWindows)) {
+        held.holdReleased = true;
+        held.holdBroken = true;
+        updateScore('sliderTickMiss');
+      } else {
+        held.hit = true;
+        updateScore(getHoldResult(hitWindows, held.holdHeadOffset || 0, currentTime - held.endTime, held.holdBroken));
+      }
+      return;
+    }
+
+    // A hold let go too early can be grabbed again before its end
+    const released = findHold(true);
+    if (released && currentTime < released.endTime) {
+      released.holdReleased = false;
+      return;
+    }
+
     for (let i = nextHittableIndex.current; i < list.length; i++) {
       const obj = list[i];
-      if (obj.hit || obj.missed) continue;
+      if (obj.hit || obj.missed || obj.headJudged) continue;
+
+      if (getManiaColumn(obj.x, maniaLayout.keys) !== columnIndex) continue;
+
+      if (obj.time - currentTime > getLatestHitWindow(hitWindows)) break; 
+
+      const result = judgeHit(hitWindows, currentTime - obj.time);
+      if (result) {
+         if (result === 'miss') obj.missed = true;
+         else if (obj.type === HitObjectType.HOLD) {
+           // Holds are only scored once they are let go, see above
+           obj.headJudged = true;
+           obj.holdHeadOffset = currentTime - obj.time;
+           playObjectHitsound(obj);
+           return;
+         } else {
+           obj.hit = true;
+           playObjectHitsound(obj);
+         }
+         updateScore(result);
+         return; 
+      }
+    }
+  }, [audioCtx, hitWindows, maniaLayout]);
+
+  // --- REPLAYS ---
+  // Current input in the osu! replay frame layout
+  const getInputFrame = (time: number): ReplayFrame => {
+    switch (beatmap.mode) {
+      case GameMode.TAIKO: {
+        const ds = taikoDrumState.current;
+        // M1/K1 are the left/right centre, M2/K2 the left/right rim
+        const keys = (ds.leftInner ? ReplayButton.M1 : 0) | (ds.rightInner ? ReplayButton.K1 : 0)
+          | (ds.leftOuter ? ReplayButton.M2 : 0) | (ds.rightOuter ? ReplayButton.K2 : 0);
+        return { time, x: 0, y: 0, keys };
+      }
+      case GameMode.MANIA: {
+        const columns = maniaKeyState.current.reduce((mask, down, col) => down ? mask | (1 << col) : mask, 0);
+        return { time, x: columns, y: 0, keys: 0 };
+      }
+      case GameMode.CATCH: {
+        const cs = catcherState.current;
+        return { time, x: cs.x, y: 0, keys: cs.isDashing || cs.isPointerDown ? ReplayButton.M1 : 0 };
+      }
+      default: {
+        const t = transform.current;
+        const m = visualMouse.current;
+        return { time, x: (m.x - t.offsetX) / t.scale, y: (m.y - t.offsetY) / t.scale, keys: standardButtons.current };
+      }
+    }
+  };
 
-      const col = Math.floor(obj.x * 4 / 512);
-      if (col !== columnIndex) continue;
+  const recordFrame = (time: number) => {
+    if (replay) return;
+    const frame = getInputFrame(time);
+    const frames = recordedFrames.current;
+    const last = frames[frames.length - 1];
+    if (last) {
+      if (last.x === frame.x && last.y === frame.y && last.keys === frame.keys) return;
+      // Input events and the draw loop read the audio clock separately
+      frame.time = Math.max(frame.time, last.time);
+    }
+    frames.push(frame);
+  };
 
-      if (obj.time - currentTime > HIT_WINDOW_50) break; 
+  // Feeds a recorded frame back in at its own time, so hits get the same judgements
+  const applyReplayFrame = (frame: ReplayFrame) => {
+    const prev = lastReplayFrame.current;
+    const pressed = frame.keys & ~(prev ? prev.keys : 0);
+    lastReplayFrame.current = frame;
+
+    switch (beatmap.mode) {
+      case GameMode.TAIKO: {
+        const ds = taikoDrumState.current;
+        ds.leftInner = (frame.keys & ReplayButton.M1) !== 0;
+        ds.rightInner = (frame.keys & ReplayButton.K1) !== 0;
+        ds.leftOuter = (frame.keys & ReplayButton.M2) !== 0;
+        ds.rightOuter = (frame.keys & ReplayButton.K2) !== 0;
+        if (pressed & ReplayButton.M1) handleTaikoInput('inner', 'left', frame.time);
+        if (pressed & ReplayButton.K1) handleTaikoInput('inner', 'right', frame.time);
+        if (pressed & ReplayButton.M2) handleTaikoInput('outer', 'left', frame.time);
+        if (pressed & ReplayButton.K2) handleTaikoInput('outer', 'right', frame.time);
+        break;
+      }
+      case GameMode.MANIA: {
+        const prevColumns = prev ? prev.x : 0;
+        maniaKeyState.current.forEach((_, col) => {
+          const down = (frame.x & (1 << col)) !== 0;
+          maniaKeyState.current[col] = down;
+          if (down !== ((prevColumns & (1 << col)) !== 0)) handleManiaInput(col, down, frame.time);
+        });
+        break;
+      }
+      case GameMode.CATCH: {
+        const cs = catcherState.current;
+        if (frame.x !== cs.x) cs.direction = frame.x < cs.x ? -1 : 1;
+        cs.x = frame.x;
+        cs.isDashing = (frame.keys & ReplayButton.M1) !== 0;
+        break;
+      }
+      default: {
+        const t = transform.current;
+        const x = frame.x * t.scale + t.offsetX;
+        const y = frame.y * t.scale + t.offsetY;
+        mouseState.current = { x, y, isDown: (frame.keys & STANDARD_BUTTONS) !== 0 };
+        visualMouse.current = { x, y };
+        if (pressed & STANDARD_BUTTONS) handleStandardInput(x, y, frame.time);
+      }
+    }
+  };
 
-      const timeDiff = Math.abs(currentTime - obj.time);
-      if (timeDiff <= HIT_WINDOW_50) {
-         obj.hit = true;
-         if (timeDiff <= HIT_WINDOW_300) updateScore(300, '300');
-         else if (timeDiff <= HIT_WINDOW_100) updateScore(100, '100');
-         else updateScore(50, '50');
-         return; 
+  // M1/M2 stay down while their key (K1/K2), mouse button, finger or gamepad button is held
+  const releaseStandardButtons = () => {
+    const held = standardButtons.current;
+    const { mouse, touches, gamepad } = standardHolds.current;
+    const touching = [...touches.values()];
+    if (!(held & ReplayButton.K1) && !mouse.has(0) && !touching.includes(ReplayButton.M1) && !(gamepad & ReplayButton.M1)) standardButtons.current &= ~ReplayButton.M1;
+    if (!(held & ReplayButton.K2) && !mouse.has(2) && !touching.includes(ReplayButton.M2) && !(gamepad & ReplayButton.M2)) standardButtons.current &= ~ReplayButton.M2;
+    mouseState.current.isDown = standardButtons.current !== 0;
+  };
+
+  // Gamepads have no button events, so the draw loop polls the first one and acts on what changed
+  const pollGamepad = (time: number) => {
+    const pad = getGamepad();
+    const pressed = new Set(pad ? getPressedButtons(pad) : []);
+    const previous = gamepadButtons.current;
+    gamepadButtons.current = pressed;
+    const wentDown = (button: number) => pressed.has(button) && !previous.has(button);
+    const wentUp = (button: number) => !pressed.has(button) && previous.has(button);
+
+    switch (beatmap.mode) {
+      case GameMode.TAIKO: {
+        const ds = taikoDrumState.current;
+        const [leftOuter, leftInner, rightInner, rightOuter] = settings.gamepad.taiko;
+        if (wentDown(leftOuter)) { ds.leftOuter = true; handleTaikoInput('outer', 'left', time); } else if (wentUp(leftOuter)) ds.leftOuter = false;
+        if (wentDown(leftInner)) { ds.leftInner = true; handleTaikoInput('inner', 'left', time); } else if (wentUp(leftInner)) ds.leftInner = false;
+        if (wentDown(rightInner)) { ds.rightInner = true; handleTaikoInput('inner', 'right', time); } else if (wentUp(rightInner)) ds.rightInner = false;
+        if (wentDown(rightOuter)) { ds.rightOuter = true; handleTaikoInput('outer', 'right', time); } else if (wentUp(rightOuter)) ds.rightOuter = false;
+        break;
+      }
+      case GameMode.MANIA:
+        (settings.maniaGamepad[maniaLayout.keys] || []).forEach((button, col) => {
+          if (!wentDown(button) && !wentUp(button)) return;
+          maniaKeyState.current[col] = pressed.has(button);
+          handleManiaInput(col, pressed.has(button), time);
+        });
+        break;
+      case GameMode.CATCH: {
+        const cs = catcherState.current;
+        const [left, right, dash] = settings.gamepad.catch;
+        if (wentDown(dash)) cs.isDashing = true;
+        else if (wentUp(dash)) cs.isDashing = false;
+        const buttons = (pressed.has(right) ? 1 : 0) - (pressed.has(left) ? 1 : 0);
+        cs.padMove = buttons || (pad ? getStickX(pad) : 0);
+        if (cs.padMove !== 0) cs.direction = Math.sign(cs.padMove);
+        break;
+      }
+      default: {
+        const holds = standardHolds.current;
+        settings.gamepad.standard.forEach((button, i) => {
+          const replayButton = i === 0 ? ReplayButton.M1 : ReplayButton.M2;
+          if (wentDown(button)) {
+            holds.gamepad |= replayButton;
+            standardButtons.current |= replayButton;
+            mouseState.current.isDown = true;
+            handleStandardInput(visualMouse.current.x, visualMouse.current.y, time);
+          } else if (wentUp(button)) {
+            holds.gamepad &= ~replayButton;
+            releaseStandardButtons();
+          }
+        });
       }
     }
-  }, [audioCtx]);
+  };
+
+  const setPause = (phase: PausePhase | null) => {
+    pauseRef.current = phase;
+    setPausePhase(phase);
+  };
+
+  const pause = () => {
+    if (pauseRef.current || replay || isFailed) return;
+    pauseCount.current++;
+    pausedCursor.current = { ...visualMouse.current };
+    audioCtx.suspend();
+    setPause('menu');
+  };
 
+  // Standard waits for the cursor to be clicked where it was, like osu!, the other modes count down
+  const resume = () => setPause(beatmap.mode === GameMode.STANDARD ? 'cursor' : 'countdown');
+
+  const unpause = () => {
+    audioCtx.resume();
+    setPause(null);
+    // Holds whose key was let go during the pause (and not pressed again) are let go now
+    const time = getSongTime();
+    maniaKeyState.current.forEach((down, col) => {
+      if (beatmap.mode === GameMode.MANIA && !down) handleManiaInput(col, false, time);
+    });
+  };
+
+  const resumeAtCursor = (x: number, y: number) => {
+    const target = pausedCursor.current;
+    if (Math.hypot(x - target.x, y - target.y) <= circleRadius * transform.current.scale) unpause();
+  };
+
+  const finish = (score: ScoreData) => {
+    // Like osu!, a play where a touchscreen was used for tapping gets TD
+    if (touchUsed.current) score = { ...score, mods: score.mods | Mod.TouchDevice };
+    if (beatmap.mode === GameMode.CATCH) score = { ...score, catchInput: replay ? replay.score.catchInput : settings.catchInput };
+    score = { ...score, pauseCount: replay ? replay.score.pauseCount : pauseCount.current };
+    onFinish(score, replay || createReplay(beatmap, score, recordedFrames.current, settings.playerName));
+  };
 
   useEffect(() => {
     const move = (e: MouseEvent) => { 
+        if (replay) return;
         if (beatmap.mode === GameMode.STANDARD) {
             mouseState.current.x = e.clientX; 
             mouseState.current.y = e.clientY;
@@ -255,93 +672,282 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
     
     const keydown = (e: KeyboardEvent) => {
       if (e.repeat) return;
+      if (replay) {
+        if (e.key === 'Escape') onBack();
+        return;
+      }
       const k = e.key.toLowerCase();
+      const time = getSongTime();
+
+      // Escape pauses, continues from the pause menu and goes back to it from resuming.
+      // After failing it leaves like the quit button.
+      if (e.key === 'Escape') {
+        if (isFailed) onBack();
+        else if (pauseRef.current === 'menu') resume();
+        else if (pauseRef.current) setPause('menu');
+        else pause();
+        return;
+      }
+      if (pauseRef.current) {
+        if (pauseRef.current === 'cursor' && settings.keys.standard.map(toKeyName).includes(k)) resumeAtCursor(mouseState.current.x, mouseState.current.y);
+        // Mania keys let go while paused can be pressed again before resuming to keep their holds
+        if (beatmap.mode === GameMode.MANIA) {
+          const index = (settings.maniaKeys[maniaLayout.keys] || []).map(toKeyName).indexOf(k);
+          if (index !== -1) maniaKeyState.current[index] = true;
+        }
+        return;
+      }
       
       if (beatmap.mode === GameMode.STANDARD) {
-          const standardKeys = settings.keys.standard.map(k => k.toLowerCase());
-          if (standardKeys.includes(k)) {
+          const standardKeys = settings.keys.standard.map(toKeyName);
+          const index = standardKeys.indexOf(k);
+          if (index !== -1) {
+            standardButtons.current |= index === 0 ? ReplayButton.K1 | ReplayButton.M1 : ReplayButton.K2 | ReplayButton.M2;
             mouseState.current.isDown = true;
-            handleStandardInput(visualMouse.current.x, visualMouse.current.y);
+            handleStandardInput(visualMouse.current.x, visualMouse.current.y, time);
           }
       } else if (beatmap.mode === GameMode.TAIKO) {
-          const taikoKeys = settings.keys.taiko.map(k => k.toLowerCase());
-          if (k === taikoKeys[0]) { taikoDrumState.current.leftOuter = true; handleTaikoInput('outer'); }
-          if (k === taikoKeys[1]) { taikoDrumState.current.leftInner = true; handleTaikoInput('inner'); }
-          if (k === taikoKeys[2]) { taikoDrumState.current.rightInner = true; handleTaikoInput('inner'); }
-          if (k === taikoKeys[3]) { taikoDrumState.current.rightOuter = true; handleTaikoInput('outer'); }
+          const taikoKeys = settings.keys.taiko.map(toKeyName);
+          if (k === taikoKeys[0]) { taikoDrumState.current.leftOuter = true; handleTaikoInput('outer', 'left', time); }
+          if (k === taikoKeys[1]) { taikoDrumState.current.leftInner = true; handleTaikoInput('inner', 'left', time); }
+          if (k === taikoKeys[2]) { taikoDrumState.current.rightInner = true; handleTaikoInput('inner', 'right', time); }
+          if (k === taikoKeys[3]) { taikoDrumState.current.rightOuter = true; handleTaikoInput('outer', 'right', time); }
       } else if (beatmap.mode === GameMode.MANIA) {
-          const maniaKeys = settings.keys.mania4k.map(k => k.toLowerCase());
+          const maniaKeys = (settings.maniaKeys[maniaLayout.keys] || []).map(toKeyName);
           const index = maniaKeys.indexOf(k);
           if (index !== -1) {
               maniaKeyState.current[index] = true;
-              handleManiaInput(index, true);
+              handleManiaInput(index, true, time);
           }
       } else if (beatmap.mode === GameMode.CATCH) {
-          const catchKeys = settings.keys.catch.map(k => k.toLowerCase());
-          // Standard: ArrowLeft, ArrowRight, Shift
-          if (k === catchKeys[0] || e.key === "ArrowLeft") { 
+          const catchKeys = settings.keys.catch.map(toKeyName);
+          // Standard: ArrowLeft, ArrowRight, Shift. With pointer input only the dash key is used.
+          if (settings.catchInput === 'keyboard' && (k === catchKeys[0] || e.key === "ArrowLeft")) { 
               catcherState.current.isMovingLeft = true; 
               catcherState.current.direction = -1;
           }
-          if (k === catchKeys[1] || e.key === "ArrowRight") { 
+          if (settings.catchInput === 'keyboard' && (k === catchKeys[1] || e.key === "ArrowRight")) { 
               catcherState.current.isMovingRight = true;
               catcherState.current.direction = 1;
           }
           if (k === catchKeys[2] || e.key === "Shift") catcherState.current.isDashing = true;
       }
-      
-      if (e.key === 'Escape') onBack();
+      recordFrame(time);
     };
 
     const keyup = (e: KeyboardEvent) => {
+      if (replay) return;
       const k = e.key.toLowerCase();
       if (beatmap.mode === GameMode.STANDARD) {
-          const standardKeys = settings.keys.standard.map(k => k.toLowerCase());
-          if (standardKeys.includes(k)) mouseState.current.isDown = false;
+          const standardKeys = settings.keys.standard.map(toKeyName);
+          const index = standardKeys.indexOf(k);
+          if (index !== -1) {
+            standardButtons.current &= ~(index === 0 ? ReplayButton.K1 : ReplayButton.K2);
+            releaseStandardButtons();
+          }
       } else if (beatmap.mode === GameMode.TAIKO) {
-          const taikoKeys = settings.keys.taiko.map(k => k.toLowerCase());
+          const taikoKeys = settings.keys.taiko.map(toKeyName);
           if (k === taikoKeys[0]) taikoDrumState.current.leftOuter = false;
           if (k === taikoKeys[1]) taikoDrumState.current.leftInner = false;
           if (k === taikoKeys[2]) taikoDrumState.current.rightInner = false;
           if (k === taikoKeys[3]) taikoDrumState.current.rightOuter = false;
       } else if (beatmap.mode === GameMode.MANIA) {
-          const maniaKeys = settings.keys.mania4k.map(k => k.toLowerCase());
+          const maniaKeys = (settings.maniaKeys[maniaLayout.keys] || []).map(toKeyName);
           const index = maniaKeys.indexOf(k);
           if (index !== -1) {
               maniaKeyState.current[index] = false;
+              // While paused only the key state changes, holds are checked against it on resume
+              if (!pauseRef.current) handleManiaInput(index, false, getSongTime());
           }
       } else if (beatmap.mode === GameMode.CATCH) {
-          const catchKeys = settings.keys.catch.map(k => k.toLowerCase());
+          const catchKeys = settings.keys.catch.map(toKeyName);
           if (k === catchKeys[0] || e.key === "ArrowLeft") catcherState.current.isMovingLeft = false;
           if (k === catchKeys[1] || e.key === "ArrowRight") catcherState.current.isMovingRight = false;
           if (k === catchKeys[2] || e.key === "Shift") catcherState.current.isDashing = false;
       }
+      if (!pauseRef.current) recordFrame(getSongTime());
     };
 
-    const mousedown = (_e: MouseEvent) => {
+    const { mouse: mouseButtons, touches: touchButtons } = standardHolds.current;
+    // The finger the cursor follows, the one put down last
+    let cursorPointer: number | null = null;
+    const mousedown = (e: MouseEvent) => {
+      if (replay) return;
+      if (pauseRef.current) {
+        if (pauseRef.current === 'cursor') resumeAtCursor(e.clientX, e.clientY);
+        return;
+      }
       if (beatmap.mode === GameMode.STANDARD) {
+          const time = getSongTime();
+          mouseButtons.add(e.button);
+          standardButtons.current |= e.button === 2 ? ReplayButton.M2 : ReplayButton.M1;
           mouseState.current.isDown = true;
-          handleStandardInput(visualMouse.current.x, visualMouse.current.y);
+          handleStandardInput(visualMouse.current.x, visualMouse.current.y, time);
+          recordFrame(time);
       }
     };
-    const mouseup = () => mouseState.current.isDown = false;
+    const mouseup = (e: MouseEvent) => {
+      if (replay) return;
+      mouseButtons.delete(e.button);
+      releaseStandardButtons();
+      if (!pauseRef.current) recordFrame(getSongTime());
+    };
+
+    // Standard: fingers and pens hit where they touch the screen, with the cursor put straight there
+    // instead of being smoothed towards it. Mice keep using the mouse events above.
+    const isDirectPointer = (e: PointerEvent) => beatmap.mode === GameMode.STANDARD && e.pointerType !== 'mouse';
+    const placeCursor = (e: PointerEvent) => {
+      mouseState.current.x = e.clientX;
+      mouseState.current.y = e.clientY;
+      visualMouse.current = { x: e.clientX, y: e.clientY };
+    };
+
+    // Catch pointer input: the catcher heads for the last moved pointer (hovering mouse or dragging finger)
+    const catchPointers = new Set<number>();
+    const followPointer = beatmap.mode === GameMode.CATCH && settings.catchInput === 'pointer';
+    const moveCatcherTarget = (e: PointerEvent) => {
+      const t = transform.current;
+      catcherState.current.pointerX = Math.max(0, Math.min(OSU_RES_X, (e.clientX - t.offsetX) / t.scale));
+    };
+
+    const pointermove = (e: PointerEvent) => {
+      if (replay) return;
+      if (followPointer && (e.pointerType === 'mouse' || catchPointers.has(e.pointerId))) moveCatcherTarget(e);
+      if (isDirectPointer(e) && e.pointerId === cursorPointer) placeCursor(e);
+    };
+    const pointerdown = (e: PointerEvent) => {
+      if (replay) return;
+      if (pauseRef.current) {
+        if (!isDirectPointer(e)) return;
+        e.preventDefault();
+        if (pauseRef.current === 'cursor') resumeAtCursor(e.clientX, e.clientY);
+        return;
+      }
+      const time = getSongTime();
+      if (followPointer) {
+        catchPointers.add(e.pointerId);
+        catcherState.current.isPointerDown = true;
+        moveCatcherTarget(e);
+      } else if (isDirectPointer(e)) {
+        // Keeps the browser from following the tap up with mouse events
+        e.preventDefault();
+        if (e.pointerType === 'touch') touchUsed.current = true;
+        // A second finger takes the other button, so alternating fingers tap like alternating keys
+        const button = [...touchButtons.values()].includes(ReplayButton.M1) ? ReplayButton.M2 : ReplayButton.M1;
+        touchButtons.set(e.pointerId, button);
+        cursorPointer = e.pointerId;
+        standardButtons.current |= button;
+        mouseState.current.isDown = true;
+        placeCursor(e);
+        handleStandardInput(e.clientX, e.clientY, time);
+      } else return;
+      recordFrame(time);
+    };
+    const pointerup = (e: PointerEvent) => {
+      if (replay) return;
+      if (catchPointers.delete(e.pointerId)) {
+        catcherState.current.isPointerDown = catchPointers.size > 0;
+      } else if (touchButtons.delete(e.pointerId)) {
+        if (cursorPointer === e.pointerId) cursorPointer = [...touchButtons.keys()].pop() ?? null;
+        releaseStandardButtons();
+      } else return;
+      if (!pauseRef.current) recordFrame(getSongTime());
+    };
 
     window.addEventListener('mousemove', move);
     window.addEventListener('keydown', keydown);
     window.addEventListener('keyup', keyup);
     window.addEventListener('mousedown', mousedown);
     window.addEventListener('mouseup', mouseup);
+    window.addEventListener('pointermove', pointermove);
+    window.addEventListener('pointerdown', pointerdown);
+    window.addEventListener('pointerup', pointerup);
+    window.addEventListener('pointercancel', pointerup);
     return () => {
       window.removeEventListener('mousemove', move);
       window.removeEventListener('keydown', keydown);
       window.removeEventListener('keyup', keyup);
       window.removeEventListener('mousedown', mousedown);
       window.removeEventListener('mouseup', mouseup);
+      window.removeEventListener('pointermove', pointermove);
+      window.removeEventListener('pointerdown', pointerdown);
+      window.removeEventListener('pointerup', pointerup);
+      window.removeEventListener('pointercancel', pointerup);
     };
-  }, [handleStandardInput, handleTaikoInput, handleManiaInput, onBack, settings, beatmap.mode]);
+  }, [handleStandardInput, handleTaikoInput, handleManiaInput, onBack, settings, beatmap.mode, replay, isFailed]);
+
+  // Counts down, then lets the song go on
+  useEffect(() => {
+    if (pausePhase !== 'countdown') return;
+    let left = RESUME_COUNTDOWN;
+    setCountdown(left);
+    const timer = window.setInterval(() => {
+      left--;
+      if (left > 0) setCountdown(left);
+      else unpause();
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [pausePhase]);
 
 
   // --- RENDERING HELPERS ---
+  /** A loaded skin element and its size in 1x skin pixels. Undefined if the skin doesn't have it or it is still loading. */
+  const getSkinImage = (name: string) => {
+    const element = skin?.images[name];
+    if (!element) return undefined;
+    let image = skinImages.current.get(element.url);
+    if (!image) {
+      image = new Image();
+      image.src = element.url;
+      skinImages.current.set(element.url, image);
+    }
+    if (!image.complete || image.naturalWidth === 0) return undefined;
+    return { image, width: image.naturalWidth / element.scale, height: image.naturalHeight / element.scale };
+  };
+
+  /** Draws a skin element centred on (x, y) at `scale` canvas pixels per skin pixel. False if the skin doesn't have it. */
+  const drawSkinImage = (
+    ctx: CanvasRenderingContext2D, name: string, x: number, y: number, scale: number,
+    options: { tint?: Colour; rotation?: number; flip?: boolean } = {}
+  ) => {
+    const element = getSkinImage(name);
+    if (!element) return false;
+    const w = element.width * scale, h = element.height * scale;
+    const source = options.tint ? getTintedImage(element.image, options.tint) : element.image;
+    ctx.save();
+    ctx.translate(x, y);
+    if (options.rotation) ctx.rotate(options.rotation);
+    if (options.flip) ctx.scale(1, -1);
+    ctx.drawImage(source, -w / 2, -h / 2, w, h);
+    ctx.restore();
+    return true;
+  };
+
+  /** Draws live sprites at `scale` canvas pixels per skin pixel and drops finished ones. */
+  const drawSprites = (ctx: CanvasRenderingContext2D, time: number, scale: number) => {
+    sprites.current = pruneSprites(sprites.current, time);
+    sprites.current.forEach(sprite => {
+      const progress = Math.max(0, (time - sprite.startTime) / sprite.duration);
+      ctx.globalAlpha = sprite.alpha(progress);
+      const frame = getAnimationFrame(sprite.frames, time - sprite.startTime, skinConfig, sprite.loop);
+      if (!frame || !drawSkinImage(ctx, frame, sprite.x, sprite.y, scale * sprite.scale(progress))) sprite.fallback(ctx, sprite.x, sprite.y, progress);
+    });
+    ctx.globalAlpha = 1;
+  };
+
+  /** Draws a number in a skin font centred on (x, y). False if the font is missing one of its digits. */
+  const drawSkinNumber = (ctx: CanvasRenderingContext2D, prefix: string, overlap: number, text: string, x: number, y: number, scale: number) => {
+    const digits = text.split('').map(c => getSkinImage(`${prefix}-${SKIN_FONT_CHARS[c] || c}`));
+    if (digits.some(d => !d)) return false;
+    const width = digits.reduce((sum, d) => sum + d!.width, 0) - overlap * (digits.length - 1);
+    let dx = x - width * scale / 2;
+    digits.forEach(d => {
+      ctx.drawImage(d!.image, dx, y - d!.height * scale / 2, d!.width * scale, d!.height * scale);
+      dx += (d!.width - overlap) * scale;
+    });
+    return true;
+  };
+
   const drawRepeatArrow = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, scale: number, opacity: number) => {
     ctx.save();
     ctx.translate(x, y);
@@ -381,9 +987,20 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
       ctx.fill();
   };
 
+  // FL: darken everything outside a circle that shrinks at 100 and 200 combo
+  const drawFlashlight = (ctx: CanvasRenderingContext2D, x: number, y: number, baseRadius: number) => {
+    const combo = scoreRef.current.combo;
+    const radius = baseRadius * (combo >= 200 ? 0.75 : combo >= 100 ? 0.875 : 1);
+    const grad = ctx.createRadialGradient(x, y, radius * 0.8, x, y, radius * 1.3);
+    grad.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    grad.addColorStop(1, 'rgba(0, 0, 0, 1)');
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, window.innerWidth, window.innerHeight);
+  };
+
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !beatmap.audioBuffer) return;
+    if (!canvas) return;
     const ctx = canvas.getContext('2d', { alpha: true });
     if (!ctx) return;
 
@@ -404,109 +1021,296 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
     window.addEventListener('resize', resize);
 
     const source = audioCtx.createBufferSource();
-    source.buffer = beatmap.audioBuffer;
+    source.buffer = audio;
+    // NC speeds the song up like a record player, pitch included
+    if (hasMod(mods, Mod.Nightcore)) source.playbackRate.value = playbackSpeed;
     source.connect(audioCtx.destination);
     startTimeRef.current = audioCtx.currentTime + 0.5;
     source.start(startTimeRef.current);
     audioSourceRef.current = source;
     lastFrameTime.current = performance.now();
 
+    const drainPeriod = getDrainPeriod(beatmap);
+    const drainRate = getDrainRate(difficulty.hpDrainRate);
+
     // --- DRAW LOOP ---
     const draw = (now: number) => {
-      const delta = now - lastFrameTime.current;
+      // Paused: the last frame stays up and no time passes
+      if (pauseRef.current) {
+        lastFrameTime.current = now;
+        requestRef.current = requestAnimationFrame(draw);
+        return;
+      }
+      // Gameplay time passed since the last frame, in song ms
+      const delta = (now - lastFrameTime.current) * playbackSpeed;
       lastFrameTime.current = now;
-      const currentTime = (audioCtx.currentTime - startTimeRef.current) * 1000 - AUDIO_OFFSET;
+      const currentTime = getSongTime();
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       
       const t = transform.current;
+      if (replay) {
+        const frames = replay.frames;
+        while (replayIndex.current < frames.length && frames[replayIndex.current].time <= currentTime) {
+          applyReplayFrame(frames[replayIndex.current++]);
+        }
+      } else {
+        pollGamepad(currentTime);
+      }
       let allDone = true;
 
       if (beatmap.mode === GameMode.STANDARD) {
+          const list = objects.current;
+          // Auto and Relax hold sliders and spinners by themselves
+          let isHolding = mouseState.current.isDown;
+          if (isAuto || isRelax) {
+            const frame = getAutoplayFrame(list, nextHittableIndex.current, currentTime);
+            isHolding = isHolding || frame.holding;
+            if (isAuto) {
+              mouseState.current.x = frame.position.x * t.scale + t.offsetX;
+              mouseState.current.y = frame.position.y * t.scale + t.offsetY;
+              visualMouse.current = { x: mouseState.current.x, y: mouseState.current.y };
+            }
+          }
+
            // Interpolate visual mouse towards raw mouse input
           const smoothingFactor = 0.82; 
           visualMouse.current.x = lerp(visualMouse.current.x, mouseState.current.x, smoothingFactor);
           visualMouse.current.y = lerp(visualMouse.current.y, mouseState.current.y, smoothingFactor);
           const m = visualMouse.current; // Use smooth position for rendering
-          const list = objects.current;
+
+          if (isAuto || isRelax) {
+            // Tap every circle and slider head once its time has come, Relax only if the cursor is on it
+            for (let i = nextHittableIndex.current; i < list.length; i++) {
+              const obj = list[i];
+              if (obj.time > currentTime) break;
+              if (obj.hit || obj.missed || obj.headJudged || obj.type === HitObjectType.SPINNER) continue;
+              if (isAuto) handleStandardInput(obj.x * t.scale + t.offsetX, obj.y * t.scale + t.offsetY, currentTime);
+              else handleStandardInput(m.x, m.y, currentTime);
+            }
+          }
+
+          // Skin pixels to canvas pixels for gameplay elements and for spinner/cursor elements
+          const elementScale = circleRadius * 2 * t.scale / SKIN_CIRCLE_SIZE;
+          const screenScale = window.innerHeight / SKIN_SCREEN_HEIGHT;
+
+          // Follow points lead from each object to the next one in the same combo
+          for (let i = Math.max(1, nextHittableIndex.current); i < list.length; i++) {
+            const obj = list[i];
+            const prev = list[i - 1];
+            if (obj.time - approachTime > currentTime) break;
+            if (obj.newCombo || obj.type === HitObjectType.SPINNER || prev.type === HitObjectType.SPINNER || currentTime > obj.time) continue;
+            const start = prev.type === HitObjectType.SLIDER ? getSliderEndPosition(prev) : prev;
+            const dx = obj.x - start.x, dy = obj.y - start.y;
+            const distance = Math.hypot(dx, dy);
+            const angle = Math.atan2(dy, dx);
+            ctx.globalAlpha = Math.min(1, (currentTime - (obj.time - approachTime)) / 200);
+            for (let d = FOLLOW_POINT_SPACING * 1.5; d < distance - FOLLOW_POINT_SPACING; d += FOLLOW_POINT_SPACING) {
+              // Each point goes away once the cursor should have passed it
+              if (prev.endTime + (obj.time - prev.endTime) * d / distance < currentTime) continue;
+              const px = (start.x + dx * d / distance) * t.scale + t.offsetX;
+              const py = (start.y + dy * d / distance) * t.scale + t.offsetY;
+              const frame = getAnimationFrame(animations.followPoint, currentTime - (obj.time - approachTime), skinConfig);
+              if (!frame || !drawSkinImage(ctx, frame, px, py, elementScale, { rotation: angle })) {
+                ctx.beginPath();
+                ctx.moveTo(px - Math.cos(angle) * 6 * t.scale, py - Math.sin(angle) * 6 * t.scale);
+                ctx.lineTo(px + Math.cos(angle) * 6 * t.scale, py + Math.sin(angle) * 6 * t.scale);
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)'; ctx.lineWidth = 2; ctx.stroke();
+              }
+            }
+          }
+          ctx.globalAlpha = 1;
 
           for (let i = nextHittableIndex.current; i < list.length; i++) {
             const obj = list[i];
-            if ((obj.type === HitObjectType.CIRCLE && (obj.hit || obj.missed)) || (obj.type !== HitObjectType.CIRCLE && currentTime > obj.endTime + 200)) {
+            // Spinners are judged when they end, by how much of the required spinning was done
+            if (obj.type === HitObjectType.SPINNER && currentTime > obj.endTime && !obj.hit && !obj.missed) {
+              const spins = (obj.spinRotation || 0) / (Math.PI * 2);
+              const result = getSpinnerResult(spins, getSpinnerRequiredSpins(obj.endTime - obj.time, difficulty.overallDifficulty));
+              if (result === 'miss') obj.missed = true;
+              else {
+                obj.hit = true;
+                playHitsound(getHitSamples(beatmap, obj, obj.endTime));
+              }
+              updateScore(result);
+              spawnHitBurst(result, window.innerWidth / 2, window.innerHeight / 2, currentTime);
+            }
+            // Sliders stay until their tail has been judged
+            const finished = obj.type === HitObjectType.CIRCLE ? obj.hit || obj.missed
+              : currentTime > obj.endTime + 200 && (obj.type === HitObjectType.SPINNER || obj.hit || obj.missed);
+            if (finished) {
                if (i === nextHittableIndex.current) nextHittableIndex.current++;
                continue;
             }
 
             allDone = false;
             const timeUntilHit = obj.time - currentTime;
-            if (timeUntilHit < -HIT_WINDOW_50 && !obj.hit && obj.type === HitObjectType.CIRCLE) {
+            if (hasExpired(hitWindows, -timeUntilHit) && !obj.hit && obj.type === HitObjectType.CIRCLE) {
               obj.missed = true;
-              updateScore(0, 'miss');
+              updateScore('miss');
+              spawnHitBurst('miss', obj.x * t.scale + t.offsetX, obj.y * t.scale + t.offsetY, currentTime);
               continue;
             }
+            if (hasExpired(hitWindows, -timeUntilHit) && !obj.headJudged && obj.type === HitObjectType.SLIDER) {
+              obj.headJudged = true;
+              updateScore('sliderTickMiss');
+            }
 
             if (timeUntilHit <= approachTime) {
               const sx = obj.x * t.scale + t.offsetX;
               const sy = obj.y * t.scale + t.offsetY;
               const progress = Math.max(0, timeUntilHit / approachTime);
+              const comboColour = getComboColour(comboColours, obj.comboIndex);
 
               if (obj.type === HitObjectType.CIRCLE || obj.type === HitObjectType.SLIDER) {
-                if (obj.type === HitObjectType.SLIDER && obj.sliderPoints) {
-                  const pLen = obj.sliderPoints.length - 1;
+                if (obj.type === HitObjectType.SLIDER && obj.sliderPath) {
+                  const path = obj.sliderPath.points;
+                  const pLen = path.length - 1;
                   ctx.beginPath(); ctx.lineCap = 'round'; ctx.lineJoin = 'round';
-                  ctx.lineWidth = circleRadius * 2 * t.scale; 
-                  // Change opacity for better visibility (pinkish accent with 0.5 opacity)
-                  ctx.strokeStyle = 'rgba(255, 102, 170, 0.5)';
-                  
-                  ctx.moveTo(sx, sy);
-                  for (let pIdx = 1; pIdx <= pLen; pIdx++) ctx.lineTo(obj.sliderPoints[pIdx].x * t.scale + t.offsetX, obj.sliderPoints[pIdx].y * t.scale + t.offsetY);
+                  ctx.moveTo(path[0].x * t.scale + t.offsetX, path[0].y * t.scale + t.offsetY);
+                  for (let pIdx = 1; pIdx <= pLen; pIdx++) ctx.lineTo(path[pIdx].x * t.scale + t.offsetX, path[pIdx].y * t.scale + t.offsetY);
+                  ctx.globalAlpha = 0.7;
+                  if (isHidden) {
+                    // HD fades the body out over the course of the slider
+                    const fadeStart = obj.time - approachTime * 0.6;
+                    ctx.globalAlpha *= Math.max(0, Math.min(1, 1 - (currentTime - fadeStart) / (obj.endTime - fadeStart)));
+                  }
+                  // Border, then the track on top of it
+                  ctx.lineWidth = circleRadius * 2 * t.scale;
+                  ctx.strokeStyle = toCssColour(skinConfig.sliderBorder || WHITE);
                   ctx.stroke();
+                  ctx.lineWidth = circleRadius * 2 * t.scale * 0.85;
+                  ctx.strokeStyle = toCssColour(skinConfig.sliderTrackOverride || comboColour);
+                  ctx.stroke();
+                  ctx.globalAlpha = 1;
 
-                   if (obj.slides && obj.slides > 1) {
+                   if (obj.slides && obj.slides > 1 && pLen > 0) {
                     const oneSlideDuration = (obj.endTime - obj.time) / obj.slides;
-                    const slideIndex = Math.floor((currentTime - obj.time) / oneSlideDuration);
+                    const slideIndex = Math.max(0, Math.floor((currentTime - obj.time) / oneSlideDuration));
                     if (slideIndex < obj.slides - 1) {
                       const atEnd = (slideIndex % 2 === 0);
-                      const pt = atEnd ? obj.sliderPoints[pLen] : obj.sliderPoints[0];
-                      const prevPt = atEnd ? obj.sliderPoints[pLen-1] : obj.sliderPoints[1];
-                      drawRepeatArrow(ctx, pt.x * t.scale + t.offsetX, pt.y * t.scale + t.offsetY, Math.atan2(pt.y - prevPt.y, pt.x - prevPt.x), t.scale, Math.min(1, (approachTime - timeUntilHit) / 200));
+                      const pt = atEnd ? path[pLen] : path[0];
+                      const prevPt = atEnd ? path[pLen-1] : path[1];
+                      const ax = pt.x * t.scale + t.offsetX, ay = pt.y * t.scale + t.offsetY;
+                      const arrowAngle = Math.atan2(pt.y - prevPt.y, pt.x - prevPt.x);
+                      ctx.globalAlpha = Math.min(1, (approachTime - timeUntilHit) / 200);
+                      // The skin's arrow points right, ours is drawn pointing back along the path
+                      const drawn = drawSkinImage(ctx, 'reversearrow', ax, ay, elementScale, { rotation: arrowAngle + Math.PI });
+                      ctx.globalAlpha = 1;
+                      if (!drawn) drawRepeatArrow(ctx, ax, ay, arrowAngle, t.scale, Math.min(1, (approachTime - timeUntilHit) / 200));
+                    }
+                  }
+
+                  let state = sliderEvents.current.get(obj);
+                  if (!state) {
+                    state = { events: getSliderEvents(obj), next: 0, tracking: false, tailTracked: false };
+                    sliderEvents.current.set(obj, state);
+                  }
+
+                  // Upcoming ticks of the current span
+                  const spanDuration = (obj.endTime - obj.time) / (obj.slides || 1);
+                  const span = Math.max(0, Math.floor((currentTime - obj.time) / spanDuration));
+                  for (let e = state.next; e < state.events.length; e++) {
+                    const event = state.events[e];
+                    if (event.type !== 'tick') continue;
+                    if (event.edge > span) break;
+                    const tick = getSliderPositionAt(obj, event.time);
+                    const tx = tick.x * t.scale + t.offsetX, ty = tick.y * t.scale + t.offsetY;
+                    if (!drawSkinImage(ctx, 'sliderscorepoint', tx, ty, elementScale)) {
+                      ctx.beginPath(); ctx.arc(tx, ty, circleRadius * 0.15 * t.scale, 0, Math.PI * 2);
+                      ctx.fillStyle = 'white'; ctx.fill();
                     }
                   }
 
                   if (currentTime >= obj.time && currentTime <= obj.endTime) {
-                    const oneSlideDuration = (obj.endTime - obj.time) / (obj.slides || 1);
-                    const slideProg = ((currentTime - obj.time) % oneSlideDuration) / oneSlideDuration;
-                    const visualProg = (Math.floor((currentTime - obj.time) / oneSlideDuration) % 2 === 1) ? 1 - slideProg : slideProg;
-                    const pos = visualProg * pLen; const idx = Math.floor(pos); const nextIdx = Math.min(idx + 1, pLen); const sub = pos % 1;
-                    const bx = (obj.sliderPoints[idx].x + (obj.sliderPoints[nextIdx].x - obj.sliderPoints[idx].x) * sub) * t.scale + t.offsetX;
-                    const by = (obj.sliderPoints[idx].y + (obj.sliderPoints[nextIdx].y - obj.sliderPoints[idx].y) * sub) * t.scale + t.offsetY;
-                    ctx.beginPath(); ctx.arc(bx, by, circleRadius * 0.9 * t.scale, 0, Math.PI * 2); ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'; ctx.fill();
-                    // Hit logic for sliding
-                    if (mouseState.current.isDown && Math.sqrt((m.x - bx) ** 2 + (m.y - by) ** 2) <= circleRadius * 2.5 * t.scale) {
-                      if (!obj.hit) { obj.hit = true; updateScore(300, '300'); }
+                    const ball = getSliderPositionAt(obj, currentTime);
+                    const bx = ball.x * t.scale + t.offsetX;
+                    const by = ball.y * t.scale + t.offsetY;
+                    // Following starts on the ball and then gets the larger follow circle
+                    const followRadius = circleRadius * (state.tracking ? SLIDER_FOLLOW_RADIUS : 1) * t.scale;
+                    state.tracking = isHolding && Math.hypot(m.x - bx, m.y - by) <= followRadius;
+                    if (state.tracking && currentTime >= obj.endTime - SLIDER_TAIL_LENIENCY) state.tailTracked = true;
+
+                    // The ball faces where it is going, reversed spans flip it instead of turning it upside down
+                    const ahead = getSliderPositionAt(obj, Math.min(obj.endTime, currentTime + 1));
+                    const behind = getSliderPositionAt(obj, Math.max(obj.time, currentTime - 1));
+                    const reversed = span % 2 === 1;
+                    const ballAngle = Math.atan2(ahead.y - behind.y, ahead.x - behind.x);
+                    const ballFrame = getAnimationFrame(animations.sliderBall, currentTime - obj.time, skinConfig);
+                    const ballDrawn = !!ballFrame && drawSkinImage(ctx, ballFrame, bx, by, elementScale, {
+                      rotation: ballAngle,
+                      flip: reversed && skinConfig.sliderBallFlip,
+                      tint: skinConfig.allowSliderBallTint ? comboColour : skinConfig.sliderBall
+                    });
+                    if (!ballDrawn) {
+                      ctx.beginPath(); ctx.arc(bx, by, circleRadius * 0.9 * t.scale, 0, Math.PI * 2); ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'; ctx.fill();
+                    }
+                    if (state.tracking && !drawSkinImage(ctx, 'sliderfollowcircle', bx, by, elementScale)) {
+                      ctx.beginPath(); ctx.arc(bx, by, circleRadius * SLIDER_FOLLOW_RADIUS * t.scale, 0, Math.PI * 2);
+                      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)'; ctx.lineWidth = 3; ctx.stroke();
+                    }
+                  }
+
+                  // Judge ticks, repeats and the tail as the ball passes them
+                  while (state.next < state.events.length && state.events[state.next].time <= currentTime) {
+                    const event = state.events[state.next++];
+                    if (event.type === 'tail') {
+                      const tailHit = state.tracking || state.tailTracked;
+                      if (tailHit) {
+                        obj.sliderHits = (obj.sliderHits || 0) + 1;
+                        playHitsound(getSliderEdgeSamples(beatmap, obj, event.edge, event.time));
+                      }
+                      const result = getSliderResult(obj.sliderHits || 0, state.events.length + 1);
+                      if (result === 'miss') obj.missed = true;
+                      else obj.hit = true;
+                      updateScore(result);
+                      const end = getSliderEndPosition(obj);
+                      spawnHitBurst(result, end.x * t.scale + t.offsetX, end.y * t.scale + t.offsetY, currentTime);
+                    } else if (state.tracking) {
+                      obj.sliderHits = (obj.sliderHits || 0) + 1;
+                      playHitsound(event.type === 'tick'
+                        ? getSliderTickSamples(beatmap, obj, event.time)
+                        : getSliderEdgeSamples(beatmap, obj, event.edge, event.time));
+                      updateScore('sliderTick');
+                    } else {
+                      updateScore('sliderTickMiss');
                     }
                   }
                 }
 
                 // Logic modified to hide slider head immediately after it is hit
-                if (currentTime <= obj.time || (obj.type === HitObjectType.SLIDER && !obj.hit)) {
-                  const alpha = Math.min(1, (approachTime - timeUntilHit) / 200);
+                if (obj.type === HitObjectType.CIRCLE ? currentTime <= obj.time : !obj.headJudged) {
+                  const visibleFor = approachTime - timeUntilHit;
+                  let alpha = Math.min(1, visibleFor / 200);
+                  if (isHidden) {
+                    // HD: fade in over 40% of the approach, then fade out over the next 30%
+                    const fadeIn = approachTime * 0.4;
+                    alpha = visibleFor < fadeIn ? visibleFor / fadeIn : Math.max(0, 1 - (visibleFor - fadeIn) / (approachTime * 0.3));
+                  }
                   ctx.globalAlpha = alpha;
                   
-                  if (skinImages.current.hitcircle) {
-                    const size = circleRadius * 2 * t.scale;
-                    ctx.drawImage(skinImages.current.hitcircle, sx - size/2, sy - size/2, size, size);
-                  } else {
+                  if (!drawSkinImage(ctx, 'hitcircle', sx, sy, elementScale, { tint: comboColour })) {
                     ctx.beginPath(); ctx.arc(sx, sy, circleRadius * t.scale, 0, Math.PI * 2);
-                    ctx.fillStyle = COLORS.accent; ctx.fill(); ctx.strokeStyle = 'white'; ctx.lineWidth = 3; ctx.stroke();
+                    ctx.fillStyle = toCssColour(comboColour); ctx.fill(); ctx.strokeStyle = 'white'; ctx.lineWidth = 3; ctx.stroke();
                   }
-                  
-                  ctx.fillStyle = 'white'; ctx.font = `bold ${Math.floor(20 * t.scale)}px "Exo 2"`;
-                  ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-                  ctx.fillText((obj.id % 9 + 1).toString(), sx, sy);
 
-                  if (progress > 0) {
-                      ctx.beginPath(); ctx.arc(sx, sy, Math.max(circleRadius * t.scale, (circleRadius + progress * circleRadius * 2) * t.scale), 0, Math.PI * 2);
-                      ctx.strokeStyle = `rgba(255, 255, 255, ${Math.max(0, 1 - progress)})`; ctx.lineWidth = 2; ctx.stroke();
+                  const drawNumber = () => {
+                    const number = obj.comboNumber.toString();
+                    if (drawSkinNumber(ctx, skinConfig.hitCirclePrefix, skinConfig.hitCircleOverlap, number, sx, sy, elementScale * 0.8)) return;
+                    ctx.fillStyle = 'white'; ctx.font = `bold ${Math.floor(20 * t.scale)}px "Exo 2"`;
+                    ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+                    ctx.fillText(number, sx, sy);
+                  };
+                  if (!skinConfig.hitCircleOverlayAboveNumber) drawNumber();
+                  drawSkinImage(ctx, 'hitcircleoverlay', sx, sy, elementScale);
+                  if (skinConfig.hitCircleOverlayAboveNumber) drawNumber();
+
+                  if (progress > 0 && !isHidden) {
+                      const approachScale = Math.max(1, 1 + progress * 2);
+                      ctx.globalAlpha = alpha * Math.max(0, 1 - progress);
+                      if (!drawSkinImage(ctx, 'approachcircle', sx, sy, elementScale * approachScale, { tint: comboColour })) {
+                        ctx.beginPath(); ctx.arc(sx, sy, circleRadius * approachScale * t.scale, 0, Math.PI * 2);
+                        ctx.strokeStyle = 'white'; ctx.lineWidth = 2; ctx.stroke();
+                      }
                   }
                   ctx.globalAlpha = 1;
                 }
@@ -517,31 +1321,46 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
                     const dx = m.x - cx, dy = m.y - cy, angle = Math.atan2(dy, dx);
                     const now = Date.now();
                     const deltaT = now - spinnerState.current.lastTime;
-                    if (mouseState.current.isDown) {
+                    if (isHolding) {
                        const deltaAngle = Math.atan2(Math.sin(angle - spinnerState.current.lastAngle), Math.cos(angle - spinnerState.current.lastAngle));
-                       spinnerState.current.totalRotation += Math.abs(deltaAngle);
+                       obj.spinRotation = (obj.spinRotation || 0) + Math.abs(deltaAngle);
                        spinnerState.current.currentAngle += deltaAngle;
                        if (deltaT > 0) {
                           const currentRPM = (Math.abs(deltaAngle) / (Math.PI * 2)) / (deltaT / 60000);
                           spinnerState.current.rpm = spinnerState.current.rpm * 0.9 + currentRPM * 0.1;
                        }
-                       if (spinnerState.current.totalRotation > Math.PI * 8 && !obj.wasSpun) {
-                          obj.wasSpun = true; obj.hit = true; updateScore(300, '300');
+                       if (!obj.wasSpun && obj.spinRotation / (Math.PI * 2) >= getSpinnerRequiredSpins(obj.endTime - obj.time, difficulty.overallDifficulty)) {
+                          obj.wasSpun = true;
                        }
                     } else spinnerState.current.rpm *= 0.95;
                     spinnerState.current.lastAngle = angle; spinnerState.current.lastTime = now;
-                    // Visuals
-                    ctx.save(); ctx.translate(cx, cy); ctx.rotate(spinnerState.current.currentAngle);
-                    ctx.fillStyle = 'white'; ctx.beginPath(); ctx.arc(0,0, 6 * t.scale, 0, Math.PI*2); ctx.fill(); ctx.restore();
+                    // Visuals: the old single-piece spinner, the newer layered one, or our own
+                    const spinAngle = spinnerState.current.currentAngle;
                     const sProg = (currentTime - obj.time) / (obj.endTime - obj.time);
-                    ctx.beginPath(); ctx.arc(cx, cy, rBase, -Math.PI/2, (-Math.PI/2) + (Math.PI * 2 * (1 - sProg)));
-                    ctx.strokeStyle = COLORS.accent; ctx.lineWidth = 12 * t.scale; ctx.stroke();
+                    if (!drawSkinImage(ctx, 'spinner-circle', cx, cy, screenScale, { rotation: spinAngle })
+                      && drawSkinImage(ctx, 'spinner-bottom', cx, cy, screenScale, { rotation: spinAngle * 0.3 })) {
+                      drawSkinImage(ctx, 'spinner-glow', cx, cy, screenScale);
+                      drawSkinImage(ctx, 'spinner-top', cx, cy, screenScale, { rotation: spinAngle * 0.5 });
+                      drawSkinImage(ctx, 'spinner-middle2', cx, cy, screenScale);
+                      drawSkinImage(ctx, 'spinner-middle', cx, cy, screenScale);
+                    } else if (!getSkinImage('spinner-circle')) {
+                      ctx.save(); ctx.translate(cx, cy); ctx.rotate(spinAngle);
+                      ctx.fillStyle = 'white'; ctx.beginPath(); ctx.arc(0,0, 6 * t.scale, 0, Math.PI*2); ctx.fill(); ctx.restore();
+                    }
+                    if (!drawSkinImage(ctx, 'spinner-approachcircle', cx, cy, screenScale * Math.max(0.01, 1 - sProg))) {
+                      ctx.beginPath(); ctx.arc(cx, cy, rBase, -Math.PI/2, (-Math.PI/2) + (Math.PI * 2 * (1 - sProg)));
+                      ctx.strokeStyle = COLORS.accent; ctx.lineWidth = 12 * t.scale; ctx.stroke();
+                    }
                     if (obj.wasSpun) { ctx.fillStyle = '#ffcc00'; ctx.fillText("CLEAR!", cx, cy + rBase - 40 * t.scale); }
                  }
               }
             } else break;
           }
 
+          drawSprites(ctx, currentTime, elementScale);
+
+          if (isFlashlight) drawFlashlight(ctx, m.x, m.y, 160 * t.scale);
+
           // --- CURSOR TRAIL LOGIC ---
           const n = Date.now();
           // Push current VISUAL mouse position to history
@@ -549,15 +1368,13 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
           cursorHistory.current = cursorHistory.current.filter(p => n - p.time < 120);
 
           // Draw trail
-          if (skinImages.current.cursorTrail) {
-             const tImg = skinImages.current.cursorTrail;
+          if (getSkinImage('cursortrail')) {
              cursorHistory.current.forEach(p => {
                  const age = n - p.time;
                  const opacity = 1 - (age / 120);
                  if (opacity > 0) {
                      ctx.globalAlpha = opacity * 0.6; // Slightly transparent trail
-                     const tSize = 80 * t.scale; 
-                     ctx.drawImage(tImg, p.x - tSize/2, p.y - tSize/2, tSize, tSize);
+                     drawSkinImage(ctx, 'cursortrail', p.x, p.y, screenScale);
                  }
              });
           } else {
@@ -577,9 +1394,14 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
           ctx.globalAlpha = 1;
 
           // Main Cursor (drawn at visual position m)
-          if (skinImages.current.cursor) {
-            const cSize = 110 * t.scale; 
-            ctx.drawImage(skinImages.current.cursor, m.x - cSize/2, m.y - cSize/2, cSize, cSize);
+          const cursor = getSkinImage('cursor');
+          if (cursor) {
+            // CursorExpand grows it while a button is held, CursorCentre false anchors it by its top left corner
+            const cursorScale = screenScale * (skinConfig.cursorExpand && isHolding ? 1.3 : 1);
+            const cx = skinConfig.cursorCentre ? m.x : m.x + cursor.width * cursorScale / 2;
+            const cy = skinConfig.cursorCentre ? m.y : m.y + cursor.height * cursorScale / 2;
+            drawSkinImage(ctx, 'cursor', cx, cy, cursorScale, { rotation: skinConfig.cursorRotate ? (n / 10000) * Math.PI * 2 : 0 });
+            drawSkinImage(ctx, 'cursormiddle', m.x, m.y, screenScale);
           } else {
             ctx.beginPath(); ctx.arc(m.x, m.y, 16 * t.scale, 0, Math.PI * 2); ctx.fillStyle = 'white'; ctx.fill();
             ctx.beginPath(); ctx.arc(m.x, m.y, 24 * t.scale, 0, Math.PI * 2); ctx.strokeStyle = 'white'; ctx.lineWidth = 3; ctx.stroke();
@@ -660,6 +1482,31 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
           ctx.beginPath(); ctx.arc(drumDisplayX, drumDisplayY, iRad, Math.PI*1.5, Math.PI/2); 
           ctx.fillStyle = ds.rightInner ? '#ff6666' : '#993333'; ctx.fill(); ctx.strokeStyle='white'; ctx.stroke();
 
+          if (isAuto) {
+            for (let i = nextHittableIndex.current; i < list.length; i++) {
+              const obj = list[i];
+              if (obj.time > currentTime) break;
+              if (obj.hit || obj.missed) continue;
+              if (obj.type === HitObjectType.SPINNER) {
+                if (currentTime <= obj.endTime && currentTime - autoplayLastHit.current > 60) {
+                  autoplayLastHit.current = currentTime;
+                  handleTaikoInput(obj.swellLastHit === 'inner' ? 'outer' : 'inner', 'left', currentTime);
+                }
+              } else if (obj.type === HitObjectType.SLIDER) {
+                // One hit per drumroll tick once it reaches the drum, alternating hands
+                const spacing = getDrumrollTickSpacing(obj, beatmap.sliderTickRate);
+                const tick = spacing > 0 ? Math.floor((currentTime - obj.time) / spacing) : 0;
+                if (tick < getDrumrollTickCount(obj, beatmap.sliderTickRate) && !obj.drumrollHits?.has(tick)) {
+                  handleTaikoInput('inner', tick % 2 === 0 ? 'left' : 'right', obj.time + tick * spacing);
+                }
+              } else {
+                const keyType = isTaikoRim(obj) ? 'outer' : 'inner';
+                handleTaikoInput(keyType, 'left', currentTime);
+                if (isTaikoStrong(obj)) handleTaikoInput(keyType, 'right', currentTime);
+              }
+            }
+          }
+
           // 4. Draw Objects (Scroll Right to Left)
           for (let i = nextHittableIndex.current; i < list.length; i++) {
              const obj = list[i];
@@ -671,20 +1518,29 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
              const x = TAIKO_HIT_X + (obj.time - currentTime) * taikoScrollSpeed;
              
              if (x > window.innerWidth + 100) break;
-             if (x < TAIKO_HIT_X - 100 && !obj.hit && !obj.missed && obj.type === HitObjectType.CIRCLE) {
+             if (hasExpired(hitWindows, currentTime - obj.time) && !obj.hit && !obj.missed && obj.type === HitObjectType.CIRCLE) {
                  obj.missed = true; 
-                 updateScore(0, 'miss');
+                 updateScore('miss');
                  continue; 
              }
+             // Drumrolls and swells just end, unfinished swells cost nothing but their bonus
+             const drumrollSpacing = obj.type === HitObjectType.SLIDER ? getDrumrollTickSpacing(obj, beatmap.sliderTickRate) : 0;
+             if (obj.type !== HitObjectType.CIRCLE && currentTime > obj.endTime + drumrollSpacing / 2) {
+                 if (obj.type === HitObjectType.SLIDER) obj.hit = true;
+                 else obj.missed = true;
+                 continue;
+             }
 
-             const isBlue = (obj.hitSound & 2) || (obj.hitSound & 8);
-             const isBig = (obj.hitSound & 4);
+             const isBlue = isTaikoRim(obj);
+             const isBig = isTaikoStrong(obj);
              const radius = (TAIKO_NOTE_SIZE / 2) * (isBig ? TAIKO_BIG_SCALE : 1);
 
              ctx.save();
              ctx.beginPath();
              ctx.rect(panelWidth, trackY, window.innerWidth - panelWidth, TAIKO_TRACK_HEIGHT);
              ctx.clip();
+             // HD: notes vanish before they reach the drum
+             if (isHidden) ctx.globalAlpha = Math.max(0, Math.min(1, (x - TAIKO_HIT_X - 50) / 250));
 
              if (obj.type === HitObjectType.CIRCLE) {
                  ctx.beginPath();
@@ -706,11 +1562,26 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
                  ctx.beginPath(); ctx.arc(x, drumY, radius, 0, Math.PI*2); ctx.fillStyle='#ffcc00'; ctx.fill(); ctx.stroke();
                  ctx.beginPath(); ctx.arc(endX, drumY, radius, 0, Math.PI*2); ctx.fill(); ctx.stroke();
 
+                 // Ticks still to be hit
+                 ctx.fillStyle = 'white';
+                 const tickCount = getDrumrollTickCount(obj, beatmap.sliderTickRate);
+                 for (let tick = 0; tick < tickCount; tick++) {
+                     if (obj.drumrollHits?.has(tick)) continue;
+                     ctx.beginPath(); ctx.arc(x + tick * drumrollSpacing * taikoScrollSpeed, drumY, radius * 0.2, 0, Math.PI*2); ctx.fill();
+                 }
+
              } else if (obj.type === HitObjectType.SPINNER) {
-                 const endX = TAIKO_HIT_X + (obj.endTime - currentTime) * taikoScrollSpeed;
-                 const w = Math.max(50, endX - x);
-                 ctx.fillStyle = 'white'; ctx.fillRect(x, drumY - radius*1.5, w, radius*3);
-                 ctx.fillStyle = 'red'; ctx.font = "bold 20px Arial"; ctx.fillText("SPIN!", x + 10, drumY);
+                 // Swells stop on the drum once they start and count down the hits they still need
+                 const swellX = Math.max(x, TAIKO_HIT_X);
+                 const remaining = getSwellRequiredHits(obj, difficulty.overallDifficulty) - (obj.swellHits || 0);
+                 ctx.beginPath(); ctx.arc(swellX, drumY, radius * 1.2, 0, Math.PI*2);
+                 ctx.fillStyle = '#ffcc00'; ctx.fill();
+                 ctx.strokeStyle = 'white'; ctx.lineWidth = 3; ctx.stroke();
+                 // The half to hit next is lit up: centre first, then rim
+                 ctx.beginPath(); ctx.arc(swellX, drumY, radius * 0.6, 0, Math.PI*2);
+                 ctx.fillStyle = obj.swellLastHit === 'inner' ? '#3399cc' : '#eb4f4f'; ctx.fill();
+                 ctx.fillStyle = 'white'; ctx.font = 'bold 20px "Exo 2"'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+                 ctx.fillText(String(remaining), swellX, drumY);
              }
              ctx.restore();
           }
@@ -722,63 +1593,109 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
               ctx.fill();
           }
 
+          judgementAnchor.current = { x: TAIKO_HIT_X, y: drumY - TAIKO_NOTE_SIZE };
+          drawSprites(ctx, currentTime, window.innerHeight / SKIN_SCREEN_HEIGHT);
+          if (isFlashlight) drawFlashlight(ctx, TAIKO_HIT_X + 120, drumY, 200);
+
       } else if (beatmap.mode === GameMode.MANIA) {
           // --- MANIA MODE RENDER ---
           const list = objects.current;
           
-          // Calculate centering
-          const trackWidth = 4 * MANIA_COL_WIDTH;
+          // Column layout from the skin's [Mania] section for this key count (in 480px high units), ours otherwise.
+          // Co-op maps put two identical stages side by side.
+          const { keys: maniaKeys, stages, stageKeys } = maniaLayout;
+          const maniaSkin = getManiaConfig(skin?.config, stageKeys);
+          const hasManiaSkin = !!skin?.config.mania.some(m => m.keys === stageKeys);
+          const skinUnit = window.innerHeight / 480;
+          // Without a skin, columns narrow down so high key counts still fit the screen
+          const defaultColWidth = Math.min(MANIA_COL_WIDTH, (window.innerWidth * 0.9 - MANIA_STAGE_GAP * (stages - 1)) / maniaKeys);
+          const stageColWidths = Array.from({ length: stageKeys }, (_, i) => hasManiaSkin ? maniaSkin.columnWidth[i] * skinUnit : defaultColWidth);
+          const stageWidth = stageColWidths.reduce((sum, w) => sum + w, 0);
+          const trackWidth = stageWidth * stages + MANIA_STAGE_GAP * (stages - 1);
           const trackX = (window.innerWidth - trackWidth) / 2;
-          const hitY = window.innerHeight - MANIA_HIT_Y_OFFSET;
+          const stageX = Array.from({ length: stages }, (_, stage) => trackX + stage * (stageWidth + MANIA_STAGE_GAP));
+          const colWidths = Array.from({ length: maniaKeys }, (_, i) => stageColWidths[i % stageKeys]);
+          const colX = colWidths.map((_, i) => stageX[Math.floor(i / stageKeys)] + stageColWidths.slice(0, i % stageKeys).reduce((sum, w) => sum + w, 0));
+          const hitY = hasManiaSkin ? maniaSkin.hitPosition * skinUnit : window.innerHeight - MANIA_HIT_Y_OFFSET;
+
+          stageX.forEach(x => {
+            // 1. Draw Track Background
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+            ctx.fillRect(x, 0, stageWidth, window.innerHeight);
+
+            // 2. Draw Lane Lines
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+            ctx.lineWidth = 2;
+            let lineX = x;
+            for (let i = 1; i < stageKeys; i++) {
+              lineX += stageColWidths[i - 1];
+              ctx.beginPath();
+              ctx.moveTo(lineX, 0);
+              ctx.lineTo(lineX, window.innerHeight);
+              ctx.stroke();
+            }
 
-          // 1. Draw Track Background
-          ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-          ctx.fillRect(trackX, 0, trackWidth, window.innerHeight);
+            // Side borders
+            ctx.strokeStyle = '#fff';
+            ctx.lineWidth = 4;
+            ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, window.innerHeight); ctx.stroke();
+            ctx.beginPath(); ctx.moveTo(x + stageWidth, 0); ctx.lineTo(x + stageWidth, window.innerHeight); ctx.stroke();
 
-          // 2. Draw Lane Lines
-          ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-          ctx.lineWidth = 2;
-          for (let i = 1; i < 4; i++) {
-            ctx.beginPath();
-            ctx.moveTo(trackX + i * MANIA_COL_WIDTH, 0);
-            ctx.lineTo(trackX + i * MANIA_COL_WIDTH, window.innerHeight);
-            ctx.stroke();
-          }
-          
-          // Side borders
-          ctx.strokeStyle = '#fff';
-          ctx.lineWidth = 4;
-          ctx.beginPath(); ctx.moveTo(trackX, 0); ctx.lineTo(trackX, window.innerHeight); ctx.stroke();
-          ctx.beginPath(); ctx.moveTo(trackX + trackWidth, 0); ctx.lineTo(trackX + trackWidth, window.innerHeight); ctx.stroke();
+            // 3. Draw Judgement Line
+            ctx.fillStyle = '#ff66aa';
+            ctx.fillRect(x, hitY - 2, stageWidth, 4);
+          });
 
-          // 3. Draw Judgement Line
-          ctx.fillStyle = '#ff66aa';
-          ctx.fillRect(trackX, hitY - 2, trackWidth, 4);
+          if (isAuto) {
+            for (let i = nextHittableIndex.current; i < list.length; i++) {
+              const obj = list[i];
+              if (obj.time > currentTime) break;
+              if (obj.hit || obj.missed || obj.headJudged) continue;
+              const col = getManiaColumn(obj.x, maniaKeys);
+              maniaKeyState.current[col] = true;
+              autoplayReleaseAt.current[col] = Math.max(obj.endTime, obj.time + 50);
+              handleManiaInput(col, true, currentTime);
+            }
+            autoplayReleaseAt.current.forEach((releaseAt, col) => {
+              if (maniaKeyState.current[col] && currentTime > releaseAt) {
+                maniaKeyState.current[col] = false;
+                handleManiaInput(col, false, currentTime);
+              }
+            });
+          }
 
           // 4. Draw Key Receptors (Bottom)
-          const keys = settings.keys.mania4k;
-          for (let i = 0; i < 4; i++) {
-             const kx = trackX + i * MANIA_COL_WIDTH;
+          const keys = settings.maniaKeys[maniaKeys] || [];
+          for (let i = 0; i < maniaKeys; i++) {
+             const kx = colX[i];
+             const colWidth = colWidths[i];
              const isPressed = maniaKeyState.current[i];
              const receptorHeight = 60;
              const ky = hitY + 5;
-             
-             // Visual pressed state
-             ctx.fillStyle = isPressed 
-                ? 'rgba(255, 255, 255, 0.8)' 
-                : 'rgba(0, 0, 0, 0.5)';
-             ctx.fillRect(kx + 2, ky, MANIA_COL_WIDTH - 4, receptorHeight);
-             
-             ctx.strokeStyle = isPressed ? '#ff66aa' : 'white';
-             ctx.lineWidth = 3;
-             ctx.strokeRect(kx + 2, ky, MANIA_COL_WIDTH - 4, receptorHeight);
-             
-             // Draw Key Letter
-             ctx.fillStyle = isPressed ? 'black' : 'white';
-             ctx.font = 'bold 24px "Exo 2"';
-             ctx.textAlign = 'center';
-             ctx.textBaseline = 'middle';
-             ctx.fillText(keys[i].toUpperCase(), kx + MANIA_COL_WIDTH / 2, ky + receptorHeight / 2);
+
+             // Skin key images hang from the bottom of the screen, scaled to the column width
+             const keyImage = getSkinImage(getManiaImageName(maniaSkin, i % stageKeys, 'Key', isPressed ? 'D' : ''));
+             if (keyImage) {
+                const keyHeight = keyImage.height * colWidth / keyImage.width;
+                ctx.drawImage(keyImage.image, kx, window.innerHeight - keyHeight, colWidth, keyHeight);
+             } else {
+                // Visual pressed state
+                ctx.fillStyle = isPressed 
+                   ? 'rgba(255, 255, 255, 0.8)' 
+                   : 'rgba(0, 0, 0, 0.5)';
+                ctx.fillRect(kx + 2, ky, colWidth - 4, receptorHeight);
+                
+                ctx.strokeStyle = isPressed ? '#ff66aa' : 'white';
+                ctx.lineWidth = 3;
+                ctx.strokeRect(kx + 2, ky, colWidth - 4, receptorHeight);
+                
+                // Draw Key Letter
+                ctx.fillStyle = isPressed ? 'black' : 'white';
+                ctx.font = `bold ${Math.round(Math.min(24, colWidth * 0.4))}px "Exo 2"`;
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(keys[i] === 'Space' ? '␣' : (keys[i] || '').toUpperCase(), kx + colWidth / 2, ky + receptorHeight / 2);
+             }
              
              // Lighting effect column up
              if (isPressed) {
@@ -786,7 +1703,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
                 grad.addColorStop(0, 'rgba(255, 255, 255, 0.3)');
                 grad.addColorStop(1, 'rgba(255, 255, 255, 0)');
                 ctx.fillStyle = grad;
-                ctx.fillRect(kx, hitY - 300, MANIA_COL_WIDTH, 300);
+                ctx.fillRect(kx, hitY - 300, colWidth, 300);
              }
           }
 
@@ -798,257 +1715,222 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
                 continue;
             }
 
-            const col = Math.floor(obj.x * 4 / 512);
-            if (col < 0 || col > 3) continue;
+            const col = getManiaColumn(obj.x, maniaKeys);
 
             const timeDiff = obj.time - currentTime;
             
             // Standard Down Scroll: 
-            const noteY = hitY - (timeDiff * maniaScrollSpeed);
+            let noteY = hitY - (timeDiff * maniaScrollSpeed);
 
             // Culling
             if (noteY < -200) break; 
             
-            // Miss check (passed line)
-            if (noteY > window.innerHeight + 50 && !obj.hit) {
+            // Miss check (passed the late end of the hit window)
+            if (hasExpired(hitWindows, currentTime - obj.time) && !obj.hit && !obj.headJudged) {
                obj.missed = true;
-               updateScore(0, 'miss');
+               updateScore('miss');
                continue;
             }
 
-            const kx = trackX + col * MANIA_COL_WIDTH;
+            const isHold = obj.type === HitObjectType.HOLD;
+            if (isHold && obj.headJudged) {
+              // A hold that isn't held when its end passes misses the tail,
+              // one still held long after its end is judged as released late
+              const releaseWindow = getHoldReleaseWindow(hitWindows);
+              if (obj.holdReleased && currentTime > obj.endTime) {
+                obj.missed = true;
+                updateScore('miss');
+                continue;
+              }
+              if (!obj.holdReleased && currentTime > obj.endTime + releaseWindow) {
+                obj.hit = true;
+                updateScore(getHoldResult(hitWindows, obj.holdHeadOffset || 0, releaseWindow, obj.holdBroken));
+                continue;
+              }
+              // While held the head stays on the judgement line and the body shortens into it
+              if (!obj.holdReleased) noteY = Math.max(noteY, hitY);
+            }
+
+            const kx = colX[col];
+            const colWidth = colWidths[col];
             const noteHeight = 30; // standard note height
+            const stageColumn = col % stageKeys;
+
+            if (isHold) {
+                const endY = Math.min(noteY, hitY - (obj.endTime - currentTime) * maniaScrollSpeed);
+                // Holds that were let go stay on screen greyed out
+                ctx.globalAlpha = obj.holdReleased ? 0.4 : 1;
+
+                // Draw Body, the skin's body image is stretched over its length
+                const bodyImage = getSkinImage(getManiaImageName(maniaSkin, stageColumn, 'Note', 'L'));
+                if (bodyImage) ctx.drawImage(bodyImage.image, kx, endY, colWidth, noteY - endY);
+                else {
+                  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+                  ctx.fillRect(kx + 4, endY, colWidth - 8, noteY - endY);
+                }
 
-            // Render Hold Notes (Sliders)
-            if (obj.type === HitObjectType.SLIDER) {
-                const endTimeDiff = obj.endTime - currentTime;
-                const endY = hitY - (endTimeDiff * maniaScrollSpeed);
-                const height = noteY - endY;
-                
-                // Draw Body
-                ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
-                ctx.fillRect(kx + 4, endY, MANIA_COL_WIDTH - 8, height);
-                
                 // Draw End Cap
-                ctx.fillStyle = 'white';
-                ctx.fillRect(kx + 4, endY, MANIA_COL_WIDTH - 8, noteHeight / 2);
+                const tailImage = getSkinImage(getManiaImageName(maniaSkin, stageColumn, 'Note', 'T'));
+                if (tailImage) {
+                  const imageHeight = tailImage.height * colWidth / tailImage.width;
+                  ctx.drawImage(tailImage.image, kx, endY - imageHeight, colWidth, imageHeight);
+                } else {
+                  ctx.fillStyle = 'white';
+                  ctx.fillRect(kx + 4, endY, colWidth - 8, noteHeight / 2);
+                }
             }
 
-            // Draw Note Head
-            const isPink = col === 1 || col === 2;
-            ctx.fillStyle = isPink ? '#ff66aa' : '#ffffff';
+            // Draw Note Head, the skin's image sits on the judgement line at the column width
+            const noteImage = (isHold && getSkinImage(getManiaImageName(maniaSkin, stageColumn, 'Note', 'H')))
+              || getSkinImage(getManiaImageName(maniaSkin, stageColumn, 'Note'));
+            if (noteImage) {
+              const imageHeight = noteImage.height * colWidth / noteImage.width;
+              ctx.drawImage(noteImage.image, kx, noteY - imageHeight, colWidth, imageHeight);
+              ctx.globalAlpha = 1;
+              continue;
+            }
+            const columnType = getManiaColumnType(stageKeys, stageColumn);
+            ctx.fillStyle = columnType === '2' ? '#ff66aa' : columnType === 'S' ? '#ffcc00' : '#ffffff';
             
             // Note Rect
-            ctx.fillRect(kx + 2, noteY - noteHeight, MANIA_COL_WIDTH - 4, noteHeight);
+            ctx.fillRect(kx + 2, noteY - noteHeight, colWidth - 4, noteHeight);
             
             // Inner detail
             ctx.fillStyle = 'rgba(0,0,0,0.2)';
-            ctx.fillRect(kx + 6, noteY - noteHeight + 4, MANIA_COL_WIDTH - 12, noteHeight - 8);
+            ctx.fillRect(kx + 6, noteY - noteHeight + 4, colWidth - 12, noteHeight - 8);
+            ctx.globalAlpha = 1;
+          }
+
+          if (isHidden) {
+            // HD: a lane cover that notes fade into before the judgement line
+            const coverHeight = window.innerHeight * 0.35;
+            const cover = ctx.createLinearGradient(0, hitY - coverHeight, 0, hitY - coverHeight * 0.5);
+            cover.addColorStop(0, 'rgba(0, 0, 0, 0)');
+            cover.addColorStop(1, 'rgba(0, 0, 0, 1)');
+            ctx.fillStyle = cover;
+            stageX.forEach(x => ctx.fillRect(x, hitY - coverHeight, stageWidth, coverHeight - 2));
           }
+          judgementAnchor.current = { x: trackX + trackWidth / 2, y: hitY - 150 };
+          drawSprites(ctx, currentTime, window.innerHeight / SKIN_SCREEN_HEIGHT);
+          if (isFlashlight) drawFlashlight(ctx, window.innerWidth / 2, hitY - 150, 250);
       } else if (beatmap.mode === GameMode.CATCH) {
           // --- CATCH MODE RENDER (CTB) ---
           const t = transform.current;
-          const list = objects.current;
+          const list = catchObjects;
           
-          // 1. Update Catcher Position
+          // 1. Update Catcher Position, a hyperdash speeds it up towards its target.
+          // Pointer input moves towards the pointer no faster than the keys would.
           const cs = catcherState.current;
-          const speed = cs.isDashing ? CATCH_DASH_SPEED : CATCH_BASE_SPEED;
-          if (cs.isMovingLeft) cs.x = Math.max(0, cs.x - speed * delta);
-          if (cs.isMovingRight) cs.x = Math.min(OSU_RES_X, cs.x + speed * delta);
+          const isDashing = cs.isDashing || cs.isPointerDown;
+          const speed = isDashing ? CATCHER_DASH_SPEED : CATCHER_WALK_SPEED;
+          const pointerX = settings.catchInput === 'pointer' && !replay ? cs.pointerX : null;
+          let move = (cs.isMovingRight ? 1 : 0) - (cs.isMovingLeft ? 1 : 0) || cs.padMove;
+          if (pointerX !== null) {
+            move = Math.sign(pointerX - cs.x);
+            if (move !== 0) cs.direction = move;
+          }
+          const hyper = cs.hyperDash && Math.sign(move) === cs.hyperDash.direction ? cs.hyperDash : null;
+          let catcherX = cs.x + move * speed * (hyper ? hyper.modifier : 1) * delta;
+          if (pointerX !== null && (catcherX - pointerX) * move > 0) catcherX = pointerX;
+          if (hyper && (catcherX - hyper.targetX) * hyper.direction >= 0) {
+            catcherX = hyper.targetX;
+            cs.hyperDash = null;
+          }
+          cs.x = Math.max(0, Math.min(OSU_RES_X, catcherX));
+          if (isAuto) cs.x = getAutoplayCatcherX(list, nextHittableIndex.current, currentTime);
+
+          // HD: fruits fade out on the way down, gone just before the plate
+          const hiddenAlpha = (p: number) => isHidden ? Math.max(0, Math.min(1, (0.9 - p) / 0.3)) : 1;
           
           const catcherScreenX = cs.x * t.scale + t.offsetX;
           const catcherScreenY = CATCHER_Y_OFFSET * t.scale + t.offsetY;
           const catcherWidthPx = cs.width * t.scale;
 
-          // 2. Render Falling Objects
+          // 2. Render Falling Objects, judged the moment they reach the plate
+          const catchRange = getCatchRange(difficulty.circleSize);
+          const fruitSize = (circleRadius * CATCH_FRUIT_SCALE) * t.scale * 2.5;
           for (let i = nextHittableIndex.current; i < list.length; i++) {
              const obj = list[i];
-             
-             // Keep slider alive longer so tails don't disappear prematurely
-             const aliveTime = obj.type === HitObjectType.SLIDER ? obj.endTime + 1000 : obj.time + 200;
-             if ((obj.hit || obj.missed) && currentTime > aliveTime) {
-                 if (i === nextHittableIndex.current) nextHittableIndex.current++;
-                 continue;
+             if (obj.caught || obj.missed) {
+                 // Missed ones keep falling for a moment
+                 if (i === nextHittableIndex.current && (obj.caught || currentTime > obj.time + 200)) nextHittableIndex.current++;
+                 if (obj.caught) continue;
              }
-             
-             const progress = 1 - (obj.time - currentTime) / approachTime;
-             
-             // Culling (Too early)
-             if (progress < -0.5) break;
-
-             // SPINNER LOGIC: BANANA RAIN
-             if (obj.type === HitObjectType.SPINNER) {
-                 if (currentTime >= obj.time && currentTime <= obj.endTime) {
-                     if (now - lastBananaSpawn.current > 100) { 
-                         lastBananaSpawn.current = now;
-                         activeBananas.current.push({
-                             x: Math.random() * OSU_RES_X,
-                             y: -50, speed: 0.3 + Math.random() * 0.4,
-                             caught: false, id: Math.random()
-                         });
-                     }
-                 }
-                 continue; 
-             }
-
-             const objY = progress * CATCHER_Y_OFFSET;
-             const fruitSize = (circleRadius * CATCH_FRUIT_SCALE) * t.scale * 2.5; 
-             const radius = fruitSize / 2;
-             const hitThreshold = (cs.width / 2) + (radius / t.scale * 0.8);
 
-             const ox = obj.x * t.scale + t.offsetX;
-             const oy = objY * t.scale + t.offsetY;
-             const colors = getFruitColor(obj.x, i);
-
-             if (obj.type === HitObjectType.CIRCLE) {
-                 if (!obj.hit && !obj.missed) {
-                     // Hit Detection
-                     if (progress >= 1.0) { 
-                         const dx = Math.abs(obj.x - cs.x);
-                         if (dx <= hitThreshold) { 
-                             obj.hit = true; updateScore(300, '300'); 
-                             continue;
-                         } else if (progress > 1.05) { 
-                             obj.missed = true; updateScore(0, 'miss');
+             const progress = 1 - (obj.time - currentTime) / approachTime;
+             if (progress < 0) break;
+
+             if (!obj.caught && !obj.missed && currentTime >= obj.time) {
+                 if (Math.abs(obj.x - cs.x) <= catchRange) {
+                     obj.caught = true;
+                     if (obj.kind === 'banana') updateScore('bonus');
+                     else {
+                         updateScore(obj.kind === 'fruit' ? '300' : obj.kind === 'droplet' ? '100' : '50');
+                         if (obj.kind === 'droplet') playHitsound(getSliderTickSamples(beatmap, obj.parent, obj.time));
+                         else if (obj.kind === 'fruit') {
+                             if (obj.parent.type === HitObjectType.SLIDER) playHitsound(getSliderEdgeSamples(beatmap, obj.parent, obj.edge || 0, obj.time));
+                             else playObjectHitsound(obj.parent);
                          }
                      }
-
-                     if (!obj.missed) {
-                         // Render Fruit
-                         ctx.fillStyle = colors.fill; ctx.strokeStyle = 'white'; ctx.lineWidth = 3;
-                         ctx.beginPath(); ctx.arc(ox, oy, fruitSize / 2, 0, Math.PI*2); ctx.fill(); ctx.stroke();
-                         // Detail
-                         ctx.beginPath(); ctx.arc(ox - fruitSize/6, oy - fruitSize/6, fruitSize/6, 0, Math.PI*2); 
-                         ctx.fillStyle='rgba(255,255,255,0.4)'; ctx.fill();
-                         // Leaf
-                         ctx.beginPath(); ctx.moveTo(ox, oy - fruitSize/2); 
-                         ctx.quadraticCurveTo(ox + 5, oy - fruitSize/2 - 10, ox + 10, oy - fruitSize/2 - 5);
-                         ctx.strokeStyle = '#44cc44'; ctx.lineWidth = 4; ctx.stroke();
-                     }
-                 }
-             } else if (obj.type === HitObjectType.SLIDER) {
-                 // SLIDER LOGIC
-                 if (!obj.caughtDroplets) obj.caughtDroplets = new Set();
-                 
-                 const duration = obj.endTime - obj.time;
-                 const dropletInterval = 50; // ms between droplets
-                 const totalDroplets = Math.floor(duration / dropletInterval);
-                 const lastPt = obj.sliderPoints ? obj.sliderPoints[obj.sliderPoints.length-1] : {x: obj.x, y: 0};
-                 
-                 // 1. Render/Update Droplets (Reverse order to draw top-down if needed, but standard usually fine)
-                 for (let d = 1; d <= totalDroplets; d++) {
-                    if (obj.caughtDroplets.has(d)) continue; // Already caught
-
-                    const dTime = obj.time + d * dropletInterval;
-                    const dProgress = 1 - (dTime - currentTime) / approachTime;
-                    
-                    // Culling
-                    if (dProgress < 0) continue; 
-                    if (dProgress > 1.1) { // Fell off screen
-                        // Mark as processed/missed implicitly by not rendering, but we keep set small
-                        continue; 
-                    }
-                    
-                    // Position
-                    const pathRatio = (dTime - obj.time) / duration;
-                    const dx = obj.x + (lastPt.x - obj.x) * pathRatio;
-                    
-                    const dox = dx * t.scale + t.offsetX;
-                    const doy = (dProgress * CATCHER_Y_OFFSET) * t.scale + t.offsetY;
-                    
-                    // Check Hit
-                    if (dProgress >= 1.0 && dProgress <= 1.05) {
-                         const distX = Math.abs(dx - cs.x);
-                         if (distX <= hitThreshold) {
-                             obj.caughtDroplets.add(d);
-                             updateScore(10, '50');
-                             continue;
-                         }
-                    }
-                    
-                    // Render Droplet
-                    const isTick = d % 8 === 0; // Large ticks
-                    const dSize = isTick ? fruitSize * 0.40 : fruitSize * 0.25; // Slightly larger for better visibility
-                    
-                    ctx.beginPath(); ctx.arc(dox, doy, dSize, 0, Math.PI*2); 
-                    if (isTick) {
-                        ctx.fillStyle = colors.fill; ctx.strokeStyle = 'white'; ctx.lineWidth = 1;
-                        ctx.fill(); ctx.stroke();
-                    } else {
-                        ctx.fillStyle = 'white'; ctx.fill(); 
-                    }
+                 } else {
+                     obj.missed = true;
+                     if (obj.kind === 'tinyDroplet') updateScore('tinyDropletMiss');
+                     else if (obj.kind !== 'banana') updateScore('miss');
                  }
-                 
-                 // 2. Head Fruit (Start)
-                 if (!obj.hit) {
-                     if (progress >= 1.0) {
-                         const dx = Math.abs(obj.x - cs.x);
-                         if (dx <= hitThreshold) { 
-                             obj.hit = true; updateScore(300, '300'); 
-                         } else if (progress > 1.05) {
-                             // Head missed
-                             obj.hit = true; // Mark hit to stop checking, but no score (effectively missed head)
-                         }
-                     }
-                     if (!obj.hit && progress <= 1.05 && progress >= 0) {
-                        ctx.fillStyle = colors.fill; ctx.strokeStyle = 'white'; ctx.lineWidth = 3;
-                        ctx.beginPath(); ctx.arc(ox, oy, fruitSize/2, 0, Math.PI*2); ctx.fill(); ctx.stroke();
-                        // Leaf
-                        ctx.beginPath(); ctx.moveTo(ox, oy - fruitSize/2); 
-                        ctx.quadraticCurveTo(ox + 5, oy - fruitSize/2 - 10, ox + 10, oy - fruitSize/2 - 5);
-                        ctx.strokeStyle = '#44cc44'; ctx.lineWidth = 4; ctx.stroke();
-                     }
+                 // Fruits and droplets start or end a hyperdash, tiny droplets and bananas leave it alone
+                 if (obj.kind === 'fruit' || obj.kind === 'droplet') {
+                     const target = obj.caught ? obj.hyperDashTarget : undefined;
+                     cs.hyperDash = target
+                         ? { modifier: getHyperDashModifier(obj, target), targetX: target.x, direction: target.x > obj.x ? 1 : -1 }
+                         : null;
                  }
+                 if (obj.caught) continue;
+             }
 
-                 // 3. Tail Fruit (End)
-                 if (!obj.tailCaught) {
-                     const tailProgress = 1 - (obj.endTime - currentTime) / approachTime;
-                     
-                     if (tailProgress >= 1.0 && tailProgress <= 1.05) {
-                         const dx = Math.abs(lastPt.x - cs.x);
-                         if (dx <= hitThreshold) {
-                             obj.tailCaught = true; updateScore(300, '300');
-                         }
-                     }
+             const ox = obj.x * t.scale + t.offsetX;
+             const oy = progress * CATCHER_Y_OFFSET * t.scale + t.offsetY;
+             if (oy > window.innerHeight + fruitSize) continue;
+             ctx.globalAlpha = hiddenAlpha(progress);
+
+             if (obj.kind === 'banana') {
+                 const bSize = 35 * t.scale;
+                 ctx.fillStyle = '#ffee00'; ctx.strokeStyle = '#ccaa00'; ctx.lineWidth = 2;
+                 ctx.beginPath(); ctx.arc(ox, oy, bSize/2, 0.5, Math.PI - 0.5); 
+                 ctx.quadraticCurveTo(ox, oy - bSize/2, ox + bSize/2, oy); ctx.fill(); ctx.stroke();
+                 continue;
+             }
+             if (obj.kind === 'tinyDroplet') {
+                 ctx.fillStyle = 'white';
+                 ctx.beginPath(); ctx.arc(ox, oy, fruitSize * 0.12, 0, Math.PI*2); ctx.fill();
+                 continue;
+             }
 
-                     if (tailProgress <= 1.05 && tailProgress >= 0) {
-                         const tailOx = lastPt.x * t.scale + t.offsetX;
-                         const tailOy = (tailProgress * CATCHER_Y_OFFSET) * t.scale + t.offsetY;
-                         ctx.fillStyle = colors.fill; ctx.strokeStyle = 'white'; ctx.lineWidth = 3;
-                         ctx.beginPath(); ctx.arc(tailOx, tailOy, fruitSize/2, 0, Math.PI*2); ctx.fill(); ctx.stroke();
-                         ctx.beginPath(); ctx.moveTo(tailOx, tailOy - fruitSize/2); 
-                         ctx.quadraticCurveTo(tailOx + 5, tailOy - fruitSize/2 - 10, tailOx + 10, tailOy - fruitSize/2 - 5);
-                         ctx.strokeStyle = '#44cc44'; ctx.lineWidth = 4; ctx.stroke();
-                     }
-                 }
+             const colors = getFruitColor(obj.x, obj.parent.id);
+             const size = obj.kind === 'fruit' ? fruitSize / 2 : fruitSize * 0.25;
+             // Hyperdash fruits glow red
+             if (obj.hyperDashTarget) {
+                 ctx.shadowColor = '#ff0000'; ctx.shadowBlur = 20;
+                 ctx.beginPath(); ctx.arc(ox, oy, size + 4 * t.scale, 0, Math.PI*2);
+                 ctx.strokeStyle = '#ff3333'; ctx.lineWidth = 4; ctx.stroke();
+                 ctx.shadowBlur = 0;
+             }
+             ctx.fillStyle = colors.fill; ctx.strokeStyle = 'white'; ctx.lineWidth = obj.kind === 'fruit' ? 3 : 1;
+             ctx.beginPath(); ctx.arc(ox, oy, size, 0, Math.PI*2); ctx.fill(); ctx.stroke();
+             if (obj.kind === 'fruit') {
+                 // Detail
+                 ctx.beginPath(); ctx.arc(ox - fruitSize/6, oy - fruitSize/6, fruitSize/6, 0, Math.PI*2); 
+                 ctx.fillStyle='rgba(255,255,255,0.4)'; ctx.fill();
+                 // Leaf
+                 ctx.beginPath(); ctx.moveTo(ox, oy - fruitSize/2); 
+                 ctx.quadraticCurveTo(ox + 5, oy - fruitSize/2 - 10, ox + 10, oy - fruitSize/2 - 5);
+                 ctx.strokeStyle = '#44cc44'; ctx.lineWidth = 4; ctx.stroke();
              }
           }
 
-          // 3. Render Active Bananas (from Spinner)
-          activeBananas.current.forEach((b) => {
-              if (b.caught) return;
-              b.y += b.speed * delta;
-              const bx = b.x * t.scale + t.offsetX;
-              const by = b.y * t.scale + t.offsetY;
-              const bSize = 35 * t.scale;
-              
-              if (b.y + 15 >= CATCHER_Y_OFFSET) {
-                  const xDiff = Math.abs(b.x - cs.x);
-                  if (xDiff <= cs.width / 1.8 && b.y <= CATCHER_Y_OFFSET + 40) {
-                      b.caught = true; updateScore(100, '100');
-                  } else if (b.y > OSU_RES_Y + 50) b.caught = true; 
-              }
-              
-              if (!b.caught) {
-                  ctx.fillStyle = '#ffee00'; ctx.strokeStyle = '#ccaa00'; ctx.lineWidth = 2;
-                  ctx.beginPath(); ctx.arc(bx, by, bSize/2, 0.5, Math.PI - 0.5); 
-                  ctx.quadraticCurveTo(bx, by - bSize/2, bx + bSize/2, by); ctx.fill(); ctx.stroke();
-              }
-          });
-          activeBananas.current = activeBananas.current.filter(b => !b.caught);
+          ctx.globalAlpha = 1;
 
-          // 4. Render Catcher (Yuzu Style)
-          const isDash = cs.isDashing;
+          // 4. Render Catcher (Yuzu Style), red while dashing or hyperdashing
+          const isDash = isDashing || cs.hyperDash !== null;
           const plateRimY = catcherScreenY;
           const plateBottomY = catcherScreenY + 20 * t.scale;
 
@@ -1082,46 +1964,127 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ beatmap, audioCtx, skin, settin
           ctx.strokeStyle = '#ffddaa'; ctx.lineWidth = 4 * t.scale;
           ctx.beginPath(); ctx.moveTo(catcherScreenX - 12*t.scale, charY + headSize * 1.2); ctx.lineTo(catcherScreenX - 25*t.scale, plateBottomY); ctx.stroke();
           ctx.beginPath(); ctx.moveTo(catcherScreenX + 12*t.scale, charY + headSize * 1.2); ctx.lineTo(catcherScreenX + 25*t.scale, plateBottomY); ctx.stroke();
+
+          judgementAnchor.current = { x: catcherScreenX, y: catcherScreenY - 120 * t.scale };
+          drawSprites(ctx, currentTime, window.innerHeight / SKIN_SCREEN_HEIGHT);
+          if (isFlashlight) drawFlashlight(ctx, catcherScreenX, catcherScreenY - 60 * t.scale, 150 * t.scale);
+      }
+
+      // --- HEALTH ---
+      if (isDraining(beatmap, drainPeriod, currentTime)) {
+        healthRef.current = clampHealth(healthRef.current - drainRate * delta);
+      }
+      if (hpBarRef.current) hpBarRef.current.style.width = `${healthRef.current / MAX_HEALTH * 100}%`;
+      if (healthRef.current <= 0 && canFail) {
+        // Wind the song down like osu! does on fail, then stop
+        source.playbackRate.setValueAtTime(source.playbackRate.value, audioCtx.currentTime);
+        source.playbackRate.linearRampToValueAtTime(0.01, audioCtx.currentTime + 1.5);
+        try { source.stop(audioCtx.currentTime + 1.5); } catch (e) {}
+        scoreRef.current = { ...scoreRef.current, passed: false, mods, modMultiplier };
+        setIsFailed(true);
+        return;
       }
 
-      if (allDone && currentTime > beatmap.duration) { onFinish(scoreRef.current); return; }
+      recordFrame(currentTime);
+      if (allDone && currentTime > beatmap.duration) { finish({ ...scoreRef.current, passed: true, mods, modMultiplier }); return; }
       requestRef.current = requestAnimationFrame(draw);
     };
 
     requestRef.current = requestAnimationFrame(draw);
-    return () => { source.stop(); cancelAnimationFrame(requestRef.current); window.removeEventListener('resize', resize); };
-  }, [beatmap, audioCtx, onFinish, approachTime, circleRadius, settings, taikoScrollSpeed, maniaScrollSpeed]);
+    return () => {
+      try { source.stop(); } catch (e) {}
+      cancelAnimationFrame(requestRef.current);
+      window.removeEventListener('resize', resize);
+      // Leaving while paused, the context is shared with song select's preview
+      if (audioCtx.state === 'suspended') audioCtx.resume();
+    };
+  }, [beatmap, audioCtx, audio, onFinish, approachTime, circleRadius, hitWindows, settings, mods, replay, taikoScrollSpeed, maniaScrollSpeed]);
+
+  // Catch with pointer input keeps the system cursor
+  const isCatchPointer = beatmap.mode === GameMode.CATCH && settings.catchInput === 'pointer' && !replay;
 
   return (
-    <div className={`relative w-full h-screen overflow-hidden ${beatmap.mode === GameMode.TAIKO ? '' : 'cursor-none'} bg-black`}>
+    <div className={`relative w-full h-screen overflow-hidden ${beatmap.mode === GameMode.TAIKO || isCatchPointer || pausePhase ? '' : 'cursor-none'} touch-none bg-black`}>
       <div className="absolute inset-0 z-0 bg-cover bg-center opacity-40 pointer-events-none transition-all duration-500" style={{ backgroundImage: beatmap.backgroundUrl ? `url(${beatmap.backgroundUrl})` : 'none', transform: 'translateZ(0)' }} />
       <canvas ref={canvasRef} className="relative z-10 block w-full h-full bg-transparent" />
       <div className="absolute inset-0 z-20 pointer-events-none p-10 flex flex-col justify-between">
         {/* UI Overlay for Score - customized slightly for Taiko vs Standard if needed */}
+        <div className="absolute top-0 left-0 w-1/3 h-3 bg-black/50 border-b border-r border-white/10 rounded-br-full overflow-hidden">
+            <div ref={hpBarRef} className="h-full bg-gradient-to-r from-pink-600 to-white" style={{ width: '100%' }} />
+        </div>
         <div className="flex justify-between items-start">
            <div className="drop-shadow-[0_0_15px_rgba(0,0,0,0.8)]">
-              <div className="text-7xl font-black italic tracking-tighter text-white tabular-nums"> {displayScore.totalScore.toLocaleString()} </div>
-              <div className="text-3xl text-pink-400 font-black italic">{displayScore.accuracy.toFixed(2)}%</div>
+              <div className="text-7xl font-black italic tracking-tighter text-white tabular-nums"> <SkinFontText skin={skin} prefix={skinConfig.scorePrefix} overlap={skinConfig.scoreOverlap} text={displayScore.totalScore.toLocaleString()} height={64} /> </div>
+              <div className="text-3xl text-pink-400 font-black italic"><SkinFontText skin={skin} prefix={skinConfig.scorePrefix} overlap={skinConfig.scoreOverlap} text={`${displayScore.accuracy.toFixed(2)}%`} height={30} /></div>
+           </div>
+           {replay && (
+              <div className="bg-pink-600/80 px-6 py-3 rounded-2xl font-black italic text-xl tracking-widest animate-pulse">{TRANSLATIONS[settings.language].replay} · {replay.playerName}</div>
+           )}
+           <div className="flex gap-3">
+              {!replay && <button onClick={pause} className="pointer-events-auto bg-black/40 hover:bg-pink-600 px-8 py-4 rounded-2xl backdrop-blur-2xl border border-white/10 transition-all font-black italic text-sm hover:scale-110"> {TRANSLATIONS[settings.language].pause} </button>}
+              <button onClick={onBack} className="pointer-events-auto bg-black/40 hover:bg-pink-600 px-8 py-4 rounded-2xl backdrop-blur-2xl border border-white/10 transition-all font-black italic text-sm hover:scale-110"> {TRANSLATIONS[settings.language].quit} </button>
            </div>
-           <button onClick={onBack} className="pointer-events-auto bg-black/40 hover:bg-pink-600 px-8 py-4 rounded-2xl backdrop-blur-2xl border border-white/10 transition-all font-black italic text-sm hover:scale-110"> {TRANSLATIONS[settings.language].quit} </button>
         </div>
         
         {/* Progress Bar & Combo - hide for Taiko bottom area or adjust */}
         {beatmap.mode !== GameMode.TAIKO && beatmap.mode !== GameMode.MANIA && beatmap.mode !== GameMode.CATCH && (
             <div className="flex items-end justify-between">
-            <div className="text-9xl font-black italic text-white drop-shadow-[0_0_30px_rgba(0,0,0,0.8)] select-none"> {displayScore.combo > 1 && `${displayScore.combo}x`} </div>
+            <div className="text-9xl font-black italic text-white drop-shadow-[0_0_30px_rgba(0,0,0,0.8)] select-none"> {displayScore.combo > 1 && <SkinFontText skin={skin} prefix={skinConfig.comboPrefix} overlap={skinConfig.comboOverlap} text={`${displayScore.combo}x`} height={96} />} </div>
             <div className="w-1/4 h-2 bg-white/10 rounded-full overflow-hidden border border-white/5">
-                <div className="h-full bg-pink-500 transition-all duration-100" style={{ width: `${Math.max(0, Math.min(100, (audioCtx.currentTime - startTimeRef.current) * 1000 / beatmap.duration * 100))}%` }} />
+                <div className="h-full bg-pink-500 transition-all duration-100" style={{ width: `${Math.max(0, Math.min(100, getSongTime() / beatmap.duration * 100))}%` }} />
             </div>
             </div>
         )}
         {/* Special Taiko/Mania/Catch Combo Display */}
         {(beatmap.mode === GameMode.TAIKO || beatmap.mode === GameMode.MANIA || beatmap.mode === GameMode.CATCH) && (
              <div className="absolute bottom-10 left-10">
-                 <div className="text-8xl font-black italic text-white drop-shadow-[0_0_30px_rgba(0,0,0,0.8)] select-none"> {displayScore.combo > 1 && `${displayScore.combo}x`} </div>
+                 <div className="text-8xl font-black italic text-white drop-shadow-[0_0_30px_rgba(0,0,0,0.8)] select-none"> {displayScore.combo > 1 && <SkinFontText skin={skin} prefix={skinConfig.comboPrefix} overlap={skinConfig.comboOverlap} text={`${displayScore.combo}x`} height={80} />} </div>
              </div>
         )}
       </div>
+
+      {pausePhase === 'menu' && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-300">
+          <div className="flex flex-col items-center gap-6 w-96">
+            <h2 className="text-9xl font-black italic text-pink-500 drop-shadow-[0_0_40px_rgba(236,72,153,0.6)] uppercase tracking-tighter mb-8">{TRANSLATIONS[settings.language].paused}</h2>
+            <button onClick={resume} className="w-full bg-pink-600 hover:bg-pink-500 py-5 rounded-2xl font-black italic text-2xl transition-all transform hover:scale-[1.02] shadow-lg uppercase">{TRANSLATIONS[settings.language].continue}</button>
+            <button onClick={onRetry} className="w-full bg-white/10 hover:bg-white/20 py-4 rounded-2xl font-black italic text-xl transition-all uppercase">{TRANSLATIONS[settings.language].retry}</button>
+            <button onClick={onBack} className="w-full bg-white/5 hover:bg-white/10 py-4 rounded-2xl font-bold italic text-white/60 hover:text-white transition-all uppercase">{TRANSLATIONS[settings.language].quitToMenu}</button>
+          </div>
+        </div>
+      )}
+
+      {pausePhase === 'countdown' && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+          <div key={countdown} className="text-[12rem] font-black italic text-white drop-shadow-[0_0_40px_rgba(236,72,153,0.8)] animate-in zoom-in duration-300">{countdown}</div>
+        </div>
+      )}
+
+      {pausePhase === 'cursor' && (
+        <div className="absolute inset-0 z-30 pointer-events-none">
+          <div className="absolute top-1/4 w-full text-center text-3xl font-black italic text-white drop-shadow-[0_0_20px_rgba(0,0,0,0.8)] uppercase">{TRANSLATIONS[settings.language].clickToResume}</div>
+          <div
+            className="absolute rounded-full border-4 border-pink-400 animate-pulse"
+            style={{
+              left: pausedCursor.current.x - circleRadius * transform.current.scale,
+              top: pausedCursor.current.y - circleRadius * transform.current.scale,
+              width: circleRadius * transform.current.scale * 2,
+              height: circleRadius * transform.current.scale * 2
+            }}
+          />
+        </div>
+      )}
+
+      {isFailed && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-red-950/60 backdrop-blur-sm animate-in fade-in duration-700">
+          <div className="flex flex-col items-center gap-6 w-96">
+            <h2 className="text-9xl font-black italic text-red-500 drop-shadow-[0_0_40px_rgba(239,68,68,0.6)] uppercase tracking-tighter mb-8">{TRANSLATIONS[settings.language].failed}</h2>
+            <button onClick={onRetry} className="w-full bg-pink-600 hover:bg-pink-500 py-5 rounded-2xl font-black italic text-2xl transition-all transform hover:scale-[1.02] shadow-lg uppercase">{TRANSLATIONS[settings.language].retry}</button>
+            <button onClick={() => finish(scoreRef.current)} className="w-full bg-white/10 hover:bg-white/20 py-4 rounded-2xl font-black italic text-xl transition-all uppercase">{TRANSLATIONS[settings.language].results}</button>
+            <button onClick={onBack} className="w-full bg-white/5 hover:bg-white/10 py-4 rounded-2xl font-bold italic text-white/60 hover:text-white transition-all uppercase">{TRANSLATIONS[settings.language].quit}</button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -3,9 +3,6 @@ import { UserSettings } from './types';
 
 export const CIRCLE_RADIUS = 50;
 export const APPROACH_TIME = 1000; // ms
-export const HIT_WINDOW_300 = 50;
-export const HIT_WINDOW_100 = 100;
-export const HIT_WINDOW_50 = 150;
 
 export const COLORS = {
   accent: '#ff66aa',
@@ -19,12 +16,54 @@ export const COLORS = {
 
 export const DEFAULT_SETTINGS: UserSettings = {
   language: 'en',
+  playerName: 'Guest',
+  scoreVersion: 'v1',
   keys: {
     standard: ['z', 'x'],
     taiko: ['x', 'c', 'v', 'b'],
-    mania4k: ['d', 'f', 'j', 'k'],
     catch: ['ArrowLeft', 'ArrowRight', 'Shift']
-  }
+  },
+  // osu!'s default layouts, co-op counts split the keyboard between both stages
+  maniaKeys: {
+    1: ['Space'],
+    2: ['f', 'j'],
+    3: ['f', 'Space', 'j'],
+    4: ['d', 'f', 'j', 'k'],
+    5: ['d', 'f', 'Space', 'j', 'k'],
+    6: ['s', 'd', 'f', 'j', 'k', 'l'],
+    7: ['s', 'd', 'f', 'Space', 'j', 'k', 'l'],
+    8: ['a', 's', 'd', 'f', 'j', 'k', 'l', ';'],
+    9: ['a', 's', 'd', 'f', 'Space', 'j', 'k', 'l', ';'],
+    10: ['a', 's', 'd', 'f', 'v', 'n', 'j', 'k', 'l', ';'],
+    12: ['s', 'd', 'f', 'x', 'c', 'v', 'n', 'm', ',', 'j', 'k', 'l'],
+    14: ['a', 's', 'd', 'f', 'x', 'c', 'v', 'n', 'm', ',', 'j', 'k', 'l', ';'],
+    16: ['a', 's', 'd', 'f', 'z', 'x', 'c', 'v', 'n', 'm', ',', '.', 'j', 'k', 'l', ';'],
+    18: ['q', 'a', 's', 'd', 'f', 'z', 'x', 'c', 'v', 'n', 'm', ',', '.', 'j', 'k', 'l', ';', 'p']
+  },
+  // Standard mapping: shoulders and triggers first, then the d-pad and face buttons
+  gamepad: {
+    standard: [4, 5],
+    taiko: [4, 6, 7, 5],
+    catch: [14, 15, 0]
+  },
+  maniaGamepad: {
+    1: [0],
+    2: [4, 5],
+    3: [4, 0, 5],
+    4: [6, 4, 5, 7],
+    5: [6, 4, 0, 5, 7],
+    6: [14, 6, 4, 5, 7, 1],
+    7: [14, 6, 4, 0, 5, 7, 1],
+    8: [14, 13, 6, 4, 5, 7, 0, 1],
+    9: [14, 13, 6, 4, 3, 5, 7, 0, 1],
+    10: [14, 13, 12, 6, 4, 5, 7, 2, 0, 1],
+    12: [14, 13, 12, 6, 4, 10, 11, 5, 7, 2, 0, 1],
+    14: [15, 14, 13, 12, 6, 4, 10, 11, 5, 7, 3, 2, 0, 1],
+    16: [15, 14, 13, 12, 6, 4, 10, 8, 9, 11, 5, 7, 3, 2, 0, 1],
+    // A gamepad has 17 buttons at most, one column is left to the keyboard
+    18: [15, 14, 13, 12, 6, 4, 10, 8, 16, -1, 9, 11, 5, 7, 3, 2, 0, 1]
+  },
+  catchInput: 'keyboard'
 };
 
 export const TRANSLATIONS = {
@@ -41,15 +80,51 @@ export const TRANSLATIONS = {
     back: "BACK TO MENU",
     selectMap: "Select a beatmap or drop one here",
     noMaps: "No beatmaps found",
-    dropFiles: "Drop .osz or .osk files here",
+    dropFiles: "Drop .osz, .osk or .osr files here",
     processing: "Processing Data...",
     success: "Success",
+    failed: "Failed",
+    retry: "RETRY",
+    results: "RESULTS",
+    paused: "Paused",
+    pause: "PAUSE",
+    quitToMenu: "QUIT",
+    clickToResume: "Click the cursor to resume",
+    pauses: "Pauses",
+    replay: "REPLAY",
+    watchReplay: "WATCH REPLAY",
+    exportReplay: "EXPORT REPLAY",
+    replayMapMissing: "The beatmap for this replay is not loaded. Import its .osz first.",
+    loadMapFailed: "Could not load this beatmap's audio. Try importing its .osz again.",
     score: "Final Score",
     accuracy: "Accuracy",
     continue: "Continue",
     quit: "QUIT (ESC)",
     language: "Language",
     keys: "Keys",
+    gamepad: "Gamepad",
+    gamepadHint: "Click a gamepad binding, then press a button on the gamepad. Escape clears it.",
+    scoring: "Scoring",
+    catchInput: "Catch Input",
+    catchInputKeyboard: "Keyboard",
+    catchInputPointer: "Mouse / Touch",
+    catchInputHint: "The catcher follows the pointer, and dashes while a mouse button is held or the screen is touched.",
+    mods: "Mods",
+    scoreMultiplier: "Score Multiplier",
+    library: "Library",
+    playerName: "Player Name",
+    leaderboard: "Local Ranking",
+    personalBest: "Personal Best",
+    noScores: "No scores set yet",
+    newBest: "New Personal Best!",
+    aim: "Aim",
+    speed: "Speed",
+    performance: "Performance",
+    ifFullCombo: "if FC",
+    storageUsed: "Storage Used",
+    deleteSet: "Delete set",
+    clearLibrary: "CLEAR ALL",
+    clearLibraryConfirm: "Delete every imported beatmap from this browser?",
     saveClose: "SAVE & CLOSE",
     disclaimer: "Disclaimer: This is a fan project and not affiliated with ppy Pty Ltd.\nosu! is a trademark of ppy Pty Ltd.",
     customSkin: "✨ Custom Skin Active",
@@ -69,15 +144,51 @@ export const TRANSLATIONS = {
     back: "メニューに戻る",
     selectMap: "ビートマップを選択、またはファイルをドロップ",
     noMaps: "ビートマップが見つかりません",
-    dropFiles: ".osz または .osk ファイルをここにドロップ",
+    dropFiles: ".osz / .osk / .osr ファイルをここにドロップ",
     processing: "データ処理中...",
     success: "クリア",
+    failed: "失敗",
+    retry: "リトライ",
+    results: "リザルト",
+    paused: "ポーズ",
+    pause: "ポーズ",
+    quitToMenu: "終了",
+    clickToResume: "カーソルをクリックして再開",
+    pauses: "ポーズ回数",
+    replay: "リプレイ",
+    watchReplay: "リプレイを見る",
+    exportReplay: "リプレイを保存",
+    replayMapMissing: "このリプレイのビートマップが読み込まれていません。先に .osz をインポートしてください。",
+    loadMapFailed: "このビートマップの音声を読み込めませんでした。.osz をもう一度インポートしてください。",
     score: "スコア",
     accuracy: "精度",
     continue: "続ける",
     quit: "終了 (ESC)",
     language: "言語 (Language)",
     keys: "キー設定",
+    gamepad: "ゲームパッド",
+    gamepadHint: "ゲームパッドの割り当てをクリックしてからボタンを押してください。Escで解除します。",
+    scoring: "スコア計算",
+    catchInput: "キャッチ操作",
+    catchInputKeyboard: "キーボード",
+    catchInputPointer: "マウス / タッチ",
+    catchInputHint: "キャッチャーがポインターを追いかけます。マウスボタンを押している間とタッチ中はダッシュします。",
+    mods: "MOD",
+    scoreMultiplier: "スコア倍率",
+    library: "ライブラリ",
+    playerName: "プレイヤー名",
+    leaderboard: "ローカルランキング",
+    personalBest: "自己ベスト",
+    noScores: "まだスコアがありません",
+    newBest: "自己ベスト更新!",
+    aim: "エイム",
+    speed: "スピード",
+    performance: "パフォーマンス",
+    ifFullCombo: "FC時",
+    storageUsed: "使用容量",
+    deleteSet: "セットを削除",
+    clearLibrary: "すべて削除",
+    clearLibraryConfirm: "このブラウザに保存されたビートマップをすべて削除しますか？",
     saveClose: "保存して閉じる",
     disclaimer: "免責事項: これはファンプロジェクトであり、ppy Pty Ltdとは関係ありません。\nosu! は ppy Pty Ltd の商標です。",
     customSkin: "✨ カスタムスキン適用中",
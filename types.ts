@@ -17,43 +17,190 @@ export enum GameMode {
 export enum HitObjectType {
   CIRCLE = 1,
   SLIDER = 2,
-  SPINNER = 8
+  SPINNER = 8,
+  // Mania hold notes, judged on the press, how long it is held and the release
+  HOLD = 128
 }
 
+// Values match the osu! mod bitfield so they can be written to replays as-is
+export enum Mod {
+  NoFail = 1,
+  Easy = 2,
+  // Not picked by the player: set on plays tapped on a touchscreen
+  TouchDevice = 4,
+  Hidden = 8,
+  HardRock = 16,
+  SuddenDeath = 32,
+  DoubleTime = 64,
+  Relax = 128,
+  HalfTime = 256,
+  Nightcore = 512,
+  Flashlight = 1024,
+  Autoplay = 2048,
+  Perfect = 16384
+}
+
+// Bitfield of Mod values
+export type Mods = number;
+
 export type Language = 'en' | 'jp';
 
+// How the catcher is moved: the bound keys, or following the mouse / a touch drag
+export type CatchInputMode = 'keyboard' | 'pointer';
+
+// MAX and 200 only exist in mania. In catch 100 is a droplet and 50 a tiny droplet.
+// 'bonus' covers spinner/swell/banana points that don't count towards accuracy.
+// 'sliderTick' is a standard slider head, tick or repeat that was hit: combo and a few points, no accuracy.
+// 'sliderTickMiss' is one that was dropped, it breaks combo.
+export type HitResult = 'MAX' | '300' | '200' | '100' | '50' | 'miss' | 'tinyDropletMiss' | 'bonus' | 'sliderTick' | 'sliderTickMiss';
+
+export type ScoringVersion = 'v1' | 'v2';
+
 export interface UserSettings {
   language: Language;
+  // Shown on local leaderboards and written into replays
+  playerName: string;
+  scoreVersion: ScoringVersion;
   keys: {
     standard: string[];
     taiko: string[];
-    mania4k: string[];
     catch: string[];
   };
+  // Mania bindings per key count, one key per column
+  maniaKeys: Record<number, string[]>;
+  // Gamepad button indices for the same bindings, -1 when unbound
+  gamepad: {
+    standard: number[];
+    taiko: number[];
+    catch: number[];
+  };
+  maniaGamepad: Record<number, number[]>;
+  catchInput: CatchInputMode;
+}
+
+// Sample banks hitsounds are played from. Auto inherits from the timing point (or the normal set for additions).
+export enum SampleSet {
+  Auto = 0,
+  Normal = 1,
+  Soft = 2,
+  Drum = 3
+}
+
+// Bits of HitObject.hitSound. The normal sound always plays, the others are additions.
+export enum HitSound {
+  Normal = 1,
+  Whistle = 2,
+  Finish = 4,
+  Clap = 8
+}
+
+// Per-object overrides of the timing point samples, 0 means "use the timing point"
+export interface HitSample {
+  normalSet: SampleSet;
+  additionSet: SampleSet;
+  index: number;
+  volume: number;
+  // Replaces the whole hitsound with a file from the beatmap folder
+  filename?: string;
+}
+
+// Raw audio file from a beatmap or skin archive, decoded when a play starts
+export interface SampleFile {
+  name: string;
+  data: ArrayBuffer;
+}
+
+// Bits of TimingPoint.effects
+export enum TimingEffect {
+  Kiai = 1,
+  OmitFirstBarLine = 8
 }
 
 export interface TimingPoint {
   time: number;
+  // ms per beat on uninherited (red) points, a negative SV percentage on inherited (green) ones
   beatLength: number;
-  inherited: boolean;
+  meter: number;
+  sampleSet: SampleSet;
+  sampleIndex: number;
+  volume: number;
+  // True for red lines, which set the BPM. Green lines only change SV, samples and effects.
+  uninherited: boolean;
+  effects: number;
+}
+
+// Break from [Events], health doesn't drain during one
+export interface BreakPeriod {
+  start: number;
+  end: number;
+}
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+// B = Bézier, P = perfect circle, L = linear, C = Catmull-Rom
+export type CurveType = 'B' | 'P' | 'L' | 'C';
+
+// Flattened slider curve, cumulativeLength[i] is the arc length up to points[i]
+export interface SliderPath {
+  points: Vec2[];
+  cumulativeLength: number[];
+}
+
+// r, g, b from 0 to 255
+export type Colour = [number, number, number];
+
+export interface SkinImage {
+  url: string;
+  // 2 for @2x files, which are drawn at half their pixel size
+  scale: number;
+}
+
+export interface ManiaSkinConfig {
+  keys: number;
+  // In osu!'s 480px high screen space
+  columnStart: number;
+  columnWidth: number[];
+  hitPosition: number;
+  // KeyImage#/NoteImage# overrides (lower case key) -> element name
+  images: Record<string, string>;
+}
+
+// skin.ini, with osu!'s defaults for anything it leaves out
+export interface SkinConfig {
+  name: string;
+  author: string;
+  cursorRotate: boolean;
+  cursorExpand: boolean;
+  cursorCentre: boolean;
+  hitCircleOverlayAboveNumber: boolean;
+  allowSliderBallTint: boolean;
+  sliderBallFlip: boolean;
+  // Frames per second of animated elements, -1 plays each animation once a second
+  animationFramerate: number;
+  // Combo1..8
+  comboColours: Colour[];
+  sliderBorder?: Colour;
+  sliderTrackOverride?: Colour;
+  sliderBall?: Colour;
+  // Element name prefixes of the number fonts, and how much their digits overlap
+  hitCirclePrefix: string;
+  hitCircleOverlap: number;
+  scorePrefix: string;
+  scoreOverlap: number;
+  comboPrefix: string;
+  comboOverlap: number;
+  mania: ManiaSkinConfig[];
 }
 
 export interface SkinData {
-  cursor?: string;
-  hitcircle?: string;
-  approachcircle?: string;
-  cursorTrail?: string;
-  spinnerBottom?: string;
-  spinnerTop?: string;
-  taikoInner?: string;
-  taikoOuter?: string;
-  // Catch specific placeholders
-  catcherIdle?: string;
-  catcherKiai?: string;
-  fruitApple?: string;
-  fruitGrapes?: string;
-  fruitPear?: string;
-  fruitBanana?: string;
+  config: SkinConfig;
+  // Element images by osu! element name, e.g. "hitcircleoverlay", "score-0", "mania-note1"
+  images: Record<string, SkinImage>;
+  // Hitsound samples, looked up by file name without extension
+  samples: SampleFile[];
 }
 
 export interface HitObject {
@@ -65,14 +212,39 @@ export interface HitObject {
   hit: boolean;
   missed: boolean;
   endTime: number;
-  hitSound: number; // Added for Taiko (Normal/Whistle/Finish/Clap)
+  hitSound: number; // HitSound bits
+  hitSample?: HitSample;
+  // Sliders: hitsound bits and sample sets for the head, each repeat and the tail
+  edgeSounds?: number[];
+  edgeSets?: Pick<HitSample, 'normalSet' | 'additionSet'>[];
+  // Sliders: ms between slider ticks
+  tickInterval?: number;
   sliderPoints?: { x: number; y: number }[];
+  curveType?: CurveType;
+  sliderPath?: SliderPath;
   pixelLength?: number;
   slides?: number;
+  // New combo flag from the file, forced on the first object and after spinners
+  newCombo: boolean;
+  // Which combo colour to use, skips included
+  comboIndex: number;
+  // Number drawn on the object, counting from 1 in each combo
+  comboNumber: number;
+  // Standard spinner state: radians spun so far, and whether that is enough to clear it
+  spinRotation?: number;
   wasSpun?: boolean;
-  // Catch specific state
-  caughtDroplets?: Set<number>; // Stores indices of caught droplets
-  tailCaught?: boolean;         // Tracks if the slider tail was caught
+  // Standard slider and mania hold state: whether the head was judged, and how many of head/ticks/repeats/tail were hit
+  headJudged?: boolean;
+  sliderHits?: number;
+  // Mania hold state: how far off the head was pressed, whether the key was ever let go before the tail,
+  // and whether it is let go right now
+  holdHeadOffset?: number;
+  holdBroken?: boolean;
+  holdReleased?: boolean;
+  // Taiko state: drumroll ticks already hit, and swell hits so far with the side of the last one
+  drumrollHits?: Set<number>;
+  swellHits?: number;
+  swellLastHit?: 'inner' | 'outer';
 }
 
 export interface ScoreData {
@@ -80,14 +252,101 @@ export interface ScoreData {
   combo: number;
   maxCombo: number;
   accuracy: number;
+  countGeki: number; // Mania MAX
+  countKatu: number; // Mania 200, catch missed tiny droplets
   count300: number;
   count100: number;
   count50: number;
   countMiss: number;
+  passed: boolean;
+  mods: Mods;
+  modMultiplier: number;
+  // Catch only, missing on older scores and imported replays
+  catchInput?: CatchInputMode;
+  // Times the play was paused, missing on older scores and imported replays
+  pauseCount?: number;
+}
+
+// osu! replay buttons. K1/K2 are always stored together with M1/M2.
+export enum ReplayButton {
+  M1 = 1,
+  M2 = 2,
+  K1 = 4,
+  K2 = 8,
+  Smoke = 16
+}
+
+// One input sample in song time (ms). Stored the way osu! does: x/y are osu! pixels in
+// standard, the column bitmask in mania (x) and the catcher position in catch (x).
+export interface ReplayFrame {
+  time: number;
+  x: number;
+  y: number;
+  keys: number;
+}
+
+export interface Replay {
+  mode: GameMode;
+  gameVersion: number;
+  beatmapHash: string;
+  playerName: string;
+  score: ScoreData;
+  timestamp: number;
+  frames: ReplayFrame[];
+}
+
+// XH/SH are the silver SS/S given with HD or FL
+export type Grade = 'XH' | 'SS' | 'SH' | 'S' | 'A' | 'B' | 'C' | 'D';
+
+// A completed play in the local score history
+export interface ScoreRecord {
+  id: string;
+  // Beatmap checksum, stays the same across re-imports
+  beatmapHash: string;
+  mode: GameMode;
+  playerName: string;
+  timestamp: number;
+  grade: Grade;
+  scoreVersion: ScoringVersion;
+  score: ScoreData;
+  // Missing on scores saved before pp existed
+  pp?: number;
+  fullComboPp?: number;
+}
+
+export interface DifficultyAttributes {
+  starRating: number;
+  // Standard only, 0 for the other modes
+  aimRating: number;
+  speedRating: number;
+  flashlightRating: number;
+  maxCombo: number;
+  // AR and OD as they play after rate changing mods
+  approachRate: number;
+  overallDifficulty: number;
+  greatHitWindow: number;
+  hitCircleCount: number;
+  sliderCount: number;
+  spinnerCount: number;
+}
+
+// pp of a play, split into the parts each mode's formula adds up
+export interface PerformanceAttributes {
+  total: number;
+  aim: number;
+  speed: number;
+  accuracy: number;
+  flashlight: number;
+  // Taiko strain, catch and mania overall value
+  difficulty: number;
 }
 
 export interface Beatmap {
+  // MD5 of the .osu file for imported maps, so it survives re-imports and reloads
   id: string;
+  // Online ids from [Metadata], 0 or -1 for unsubmitted maps
+  beatmapId?: number;
+  beatmapSetId?: number;
   mode: GameMode;
   title: string;
   artist: string;
@@ -97,18 +356,34 @@ export interface Beatmap {
   approachRate: number;
   overallDifficulty: number;
   circleSize: number;
+  hpDrainRate: number;
   bpm: number;
   objects: HitObject[];
   timingPoints: TimingPoint[];
+  breaks?: BreakPeriod[];
   duration: number;
   audioBuffer?: AudioBuffer;
   backgroundUrl?: string;
   sourceFile: string;
+  // MD5 of the .osu file, osu! uses it to tie replays to a difficulty
+  checksum?: string;
+  // IndexedDB library entry the map was imported from, its audio is decoded on demand
+  libraryId?: string;
   previewTime?: number;
   sliderMultiplier?: number;
+  sliderTickRate?: number;
+  // Sample set used where timing points say Auto
+  sampleSet?: SampleSet;
+  // Custom hitsounds shipped with the map
+  samples?: SampleFile[];
+  // Combo1..8 from [Colours], empty means the skin's or the default colours
+  comboColours?: Colour[];
+  // Nomod difficulty, calculated when the map is imported
+  difficultyAttributes?: DifficultyAttributes;
 }
 
 export interface BeatmapSet {
+  id: string;
   title: string;
   artist: string;
   creator: string;
@@ -0,0 +1,74 @@
+import { HitObject, HitObjectType, Vec2 } from '../types';
+import { CatchObject } from './catch';
+import { getSliderPositionAt, getSliderEndPosition } from './sliderPath';
+
+const SPINNER_CENTER = { x: 256, y: 192 };
+const SPINNER_RADIUS = 50;
+// Radians per ms, roughly 480 rpm
+const SPINNER_SPEED = 0.05;
+
+export interface AutoplayFrame {
+  position: Vec2;
+  // Whether a key should be held down (sliders and spinners)
+  holding: boolean;
+}
+
+const getEndPosition = (obj: HitObject): Vec2 => {
+  if (obj.type === HitObjectType.SLIDER) return getSliderEndPosition(obj);
+  return { x: obj.x, y: obj.y };
+};
+
+/** Where the autoplay cursor is at the given time in osu! pixels, and whether it is holding. */
+export const getAutoplayFrame = (objects: HitObject[], fromIndex: number, time: number): AutoplayFrame => {
+  let prev: HitObject | null = fromIndex > 0 ? objects[fromIndex - 1] : null;
+
+  for (let i = Math.max(0, fromIndex); i < objects.length; i++) {
+    const obj = objects[i];
+    if (obj.endTime < time) {
+      prev = obj;
+      continue;
+    }
+
+    if (time >= obj.time) {
+      if (obj.type === HitObjectType.SPINNER) {
+        const angle = (time - obj.time) * SPINNER_SPEED;
+        return {
+          position: { x: SPINNER_CENTER.x + Math.cos(angle) * SPINNER_RADIUS, y: SPINNER_CENTER.y + Math.sin(angle) * SPINNER_RADIUS },
+          holding: true
+        };
+      }
+      if (obj.type === HitObjectType.SLIDER) return { position: getSliderPositionAt(obj, time), holding: true };
+      return { position: { x: obj.x, y: obj.y }, holding: false };
+    }
+
+    // Travel in a straight line from the end of the previous object to the next one
+    const target = obj.type === HitObjectType.SPINNER ? SPINNER_CENTER : { x: obj.x, y: obj.y };
+    if (!prev) return { position: target, holding: false };
+    const from = prev.type === HitObjectType.SPINNER ? SPINNER_CENTER : getEndPosition(prev);
+    const span = obj.time - prev.endTime;
+    const f = span > 0 ? Math.max(0, Math.min(1, (time - prev.endTime) / span)) : 1;
+    return { position: { x: from.x + (target.x - from.x) * f, y: from.y + (target.y - from.y) * f }, holding: false };
+  }
+
+  return { position: prev ? getEndPosition(prev) : SPINNER_CENTER, holding: false };
+};
+
+/** Catcher x position for autoplay in catch mode: straight from one fruit or droplet to the next. Bananas are ignored. */
+export const getAutoplayCatcherX = (objects: CatchObject[], fromIndex: number, time: number) => {
+  let prev: CatchObject | null = null;
+  for (let i = Math.min(fromIndex, objects.length) - 1; i >= 0 && !prev; i--) {
+    if (objects[i].kind !== 'banana') prev = objects[i];
+  }
+  for (let i = Math.max(0, fromIndex); i < objects.length; i++) {
+    const obj = objects[i];
+    if (obj.kind === 'banana') continue;
+    if (obj.time <= time) {
+      prev = obj;
+      continue;
+    }
+    if (!prev) return obj.x;
+    const f = Math.max(0, Math.min(1, (time - prev.time) / (obj.time - prev.time)));
+    return prev.x + (obj.x - prev.x) * f;
+  }
+  return prev ? prev.x : 256;
+};
@@ -1,20 +1,50 @@
 
 import JSZip from 'jszip';
-import { Beatmap, HitObject, HitObjectType, SkinData, GameMode } from '../types';
+import { Beatmap, HitObject, HitObjectType, GameMode, CurveType, HitSample, SampleSet, SampleFile } from '../types';
+import { md5 } from './md5';
+import { computeSliderPath } from './sliderPath';
+import { TimingState, createTimingStates, getMainBpm, getTimingStateAt } from './timing';
+import { parseComboColours } from './colours';
+
+const SAMPLE_SET_NAMES: Record<string, SampleSet> = { normal: SampleSet.Normal, soft: SampleSet.Soft, drum: SampleSet.Drum };
+
+// "normalSet:additionSet:index:volume:filename", every part is optional
+const parseHitSample = (value: string | undefined): HitSample | undefined => {
+  if (!value) return undefined;
+  const [normalSet, additionSet, index, volume, filename] = value.split(':');
+  return {
+    normalSet: parseInt(normalSet) || SampleSet.Auto,
+    additionSet: parseInt(additionSet) || SampleSet.Auto,
+    index: parseInt(index) || 0,
+    volume: parseInt(volume) || 0,
+    filename: filename?.trim() || undefined
+  };
+};
 
 export const parseOsuFile = (content: string, sourceFile: string): Partial<Beatmap> => {
   const lines = content.split(/\r?\n/);
   const beatmap: Partial<Beatmap> = { 
     objects: [], 
     timingPoints: [],
+    breaks: [],
     sourceFile,
     mode: GameMode.STANDARD,
     approachRate: 5,
     circleSize: 5,
     overallDifficulty: 5,
-    sliderMultiplier: 1.4
+    hpDrainRate: 5,
+    sliderMultiplier: 1.4,
+    sliderTickRate: 1,
+    sampleSet: SampleSet.Normal
   };
   let currentSection = '';
+  // Built once the timing points have been read, [TimingPoints] always comes before [HitObjects]
+  let timing: TimingState[] | null = null;
+  const colours: Record<string, string> = {};
+  // The first object always starts a combo, and so does the one after a spinner
+  let forceNewCombo = true;
+  let comboIndex = -1;
+  let comboNumber = 0;
 
   for (let line of lines) {
     line = line.trim();
@@ -27,6 +57,7 @@ export const parseOsuFile = (content: string, sourceFile: string): Partial<Beatm
 
     if (currentSection === 'General') {
       if (line.startsWith('Mode:')) beatmap.mode = parseInt(line.split(':')[1].trim());
+      if (line.startsWith('SampleSet:')) beatmap.sampleSet = SAMPLE_SET_NAMES[line.split(':')[1].trim().toLowerCase()] || SampleSet.Normal;
     }
 
     if (currentSection === 'Metadata') {
@@ -34,31 +65,55 @@ export const parseOsuFile = (content: string, sourceFile: string): Partial<Beatm
       if (line.startsWith('Artist:')) beatmap.artist = line.split(':')[1].trim();
       if (line.startsWith('Creator:')) beatmap.creator = line.split(':')[1].trim();
       if (line.startsWith('Version:')) beatmap.difficulty = line.split(':')[1].trim();
+      if (line.startsWith('BeatmapID:')) beatmap.beatmapId = parseInt(line.split(':')[1].trim());
+      if (line.startsWith('BeatmapSetID:')) beatmap.beatmapSetId = parseInt(line.split(':')[1].trim());
     }
 
     if (currentSection === 'Difficulty') {
       if (line.startsWith('ApproachRate:')) beatmap.approachRate = parseFloat(line.split(':')[1].trim());
       if (line.startsWith('CircleSize:')) beatmap.circleSize = parseFloat(line.split(':')[1].trim());
+      if (line.startsWith('HPDrainRate:')) beatmap.hpDrainRate = parseFloat(line.split(':')[1].trim());
       if (line.startsWith('OverallDifficulty:')) beatmap.overallDifficulty = parseFloat(line.split(':')[1].trim());
       if (line.startsWith('SliderMultiplier:')) beatmap.sliderMultiplier = parseFloat(line.split(':')[1].trim());
+      if (line.startsWith('SliderTickRate:')) beatmap.sliderTickRate = parseFloat(line.split(':')[1].trim());
     }
 
     if (currentSection === 'TimingPoints') {
+      // time,beatLength,meter,sampleSet,sampleIndex,volume,uninherited,effects
       const parts = line.split(',');
       if (parts.length >= 2) {
+        const beatLength = parseFloat(parts[1]);
+        const volume = parseInt(parts[5]);
         beatmap.timingPoints!.push({
           time: parseFloat(parts[0]),
-          beatLength: parseFloat(parts[1]),
-          inherited: parts[6] === '0'
+          beatLength,
+          meter: parseInt(parts[2]) || 4,
+          sampleSet: parseInt(parts[3]) || SampleSet.Auto,
+          sampleIndex: parseInt(parts[4]) || 0,
+          volume: isNaN(volume) ? 100 : volume,
+          // Old files leave the flag out, a negative beat length is what marks an inherited point there
+          uninherited: parts[6] !== undefined ? parts[6].trim() !== '0' : beatLength > 0,
+          effects: parseInt(parts[7]) || 0
         });
       }
     }
 
+    if (currentSection === 'Colours') {
+      const separator = line.indexOf(':');
+      if (separator > 0) colours[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+
     if (currentSection === 'Events') {
       const bgMatch = line.match(/^0,0,["']?([^"']+)["']?/i);
       if (bgMatch && !beatmap.backgroundUrl) {
         (beatmap as any).bgFilename = bgMatch[1].replace(/\\/g, '/');
       }
+      // Breaks are "2,start,end", newer maps may write "Break" instead of 2
+      const [eventType, start, end] = line.split(',');
+      if (eventType === '2' || eventType === 'Break') {
+        const period = { start: parseFloat(start), end: parseFloat(end) };
+        if (period.end > period.start) beatmap.breaks!.push(period);
+      }
     }
 
     if (currentSection === 'HitObjects') {
@@ -73,13 +128,27 @@ export const parseOsuFile = (content: string, sourceFile: string): Partial<Beatm
         let type = HitObjectType.CIRCLE;
         if (typeBitmask & 2) type = HitObjectType.SLIDER;
         else if (typeBitmask & 8) type = HitObjectType.SPINNER;
+        else if (typeBitmask & 128) type = HitObjectType.HOLD;
+
+        // Bit 2 starts a new combo, bits 4-6 say how many combo colours to skip with it.
+        // Spinners don't take part in combos, they only make the next object start one.
+        const newCombo: boolean = type !== HitObjectType.SPINNER && (forceNewCombo || (typeBitmask & 4) !== 0);
+        if (newCombo) {
+          comboIndex += 1 + ((typeBitmask >> 4) & 7);
+          comboNumber = 0;
+        }
+        if (type !== HitObjectType.SPINNER) comboNumber++;
+        forceNewCombo = type === HitObjectType.SPINNER || (forceNewCombo && !newCombo);
 
         const obj: HitObject = {
           id: beatmap.objects!.length,
           x, y, time, type, hitSound,
           hit: false,
           missed: false,
-          endTime: time
+          endTime: time,
+          newCombo,
+          comboIndex: Math.max(0, comboIndex),
+          comboNumber
         };
 
         if (type === HitObjectType.SLIDER && parts.length >= 8) {
@@ -90,29 +159,35 @@ export const parseOsuFile = (content: string, sourceFile: string): Partial<Beatm
             if(p.length === 2) points.push({ x: parseInt(p[0]), y: parseInt(p[1]) });
           }
           obj.sliderPoints = points;
+          obj.curveType = (['B', 'P', 'L', 'C'].includes(sliderData[0]) ? sliderData[0] : 'B') as CurveType;
           obj.slides = parseInt(parts[6]);
           obj.pixelLength = parseFloat(parts[7]);
+          obj.sliderPath = computeSliderPath(obj.curveType, points, obj.pixelLength);
+          if (parts[8]) obj.edgeSounds = parts[8].split('|').map(s => parseInt(s) || 0);
+          if (parts[9]) obj.edgeSets = parts[9].split('|').map(s => {
+            const [normalSet, additionSet] = s.split(':');
+            return { normalSet: parseInt(normalSet) || SampleSet.Auto, additionSet: parseInt(additionSet) || SampleSet.Auto };
+          });
+          obj.hitSample = parseHitSample(parts[10]);
 
-          let currentTP = beatmap.timingPoints![0];
-          let sliderVelocityMultiplier = 1.0;
-          for (const tp of beatmap.timingPoints!) {
-            if (tp.time <= time) {
-              if (!tp.inherited) {
-                currentTP = tp;
-                sliderVelocityMultiplier = 1.0;
-              } else {
-                sliderVelocityMultiplier = Math.max(0.1, -100 / tp.beatLength);
-              }
-            } else break;
-          }
-
-          const beatLength = currentTP ? currentTP.beatLength : 500;
+          if (!timing) timing = createTimingStates(beatmap.timingPoints!);
+          const { beatLength, sliderVelocity } = getTimingStateAt(timing, time);
           const sliderMultiplier = beatmap.sliderMultiplier || 1.4;
-          const duration = (obj.pixelLength / (sliderMultiplier * 100 * sliderVelocityMultiplier)) * beatLength;
+          const duration = (obj.pixelLength / (sliderMultiplier * 100 * sliderVelocity)) * beatLength;
           obj.endTime = time + duration * obj.slides;
+          // Ticks are spaced in beats, so slider velocity doesn't change their timing
+          obj.tickInterval = beatLength / (beatmap.sliderTickRate || 1);
         } else if (type === HitObjectType.SPINNER && parts.length >= 6) {
           obj.endTime = parseInt(parts[5]);
           obj.x = 256; obj.y = 192;
+          obj.hitSample = parseHitSample(parts[6]);
+        } else if (type === HitObjectType.HOLD && parts.length >= 6) {
+          // Mania hold notes put their end time in front of the samples: endTime:normalSet:additionSet:...
+          const [endTime, ...sample] = parts[5].split(':');
+          obj.endTime = Math.max(time, parseInt(endTime) || time);
+          obj.hitSample = parseHitSample(sample.join(':'));
+        } else if (type === HitObjectType.CIRCLE) {
+          obj.hitSample = parseHitSample(parts[5]);
         }
 
         beatmap.objects!.push(obj);
@@ -120,87 +195,90 @@ export const parseOsuFile = (content: string, sourceFile: string): Partial<Beatm
     }
   }
 
-  beatmap.difficultyValue = (beatmap.approachRate! + beatmap.overallDifficulty!) / 2;
+  beatmap.comboColours = parseComboColours(colours);
+
+  // Replaced by the star rating once the difficulty calculator has run (see utils/library.ts), the song list shows "-" until then
+  beatmap.difficultyValue = 0;
   if (beatmap.objects && beatmap.objects.length > 0) {
-    beatmap.duration = Math.max(...beatmap.objects.map(o => o.endTime)) + 1000;
+    const lastTime = Math.max(...beatmap.objects.map(o => o.endTime));
+    beatmap.duration = lastTime + 1000;
+    beatmap.bpm = getMainBpm(timing || createTimingStates(beatmap.timingPoints!), lastTime);
   }
 
   return beatmap;
 };
 
-export const loadOsk = async (file: Blob): Promise<SkinData> => {
+export const SAMPLE_REGEX = /\.(wav|ogg|mp3)$/i;
+
+export interface OszContents {
+  osuFiles: { name: string; data: Uint8Array }[];
+  audio: ArrayBuffer | null;
+  backgrounds: { name: string; blob: Blob }[];
+  // Hitsound samples, every audio file except the song
+  samples: SampleFile[];
+}
+
+const BACKGROUND_REGEX = /^0,0,["']?([^"'\r\n]+)["']?/m;
+
+/** Pulls the .osu files, the song and the backgrounds out of an .osz without parsing or decoding anything. */
+export const extractOsz = async (file: Blob): Promise<OszContents> => {
   const zip = await JSZip.loadAsync(file);
-  const skin: SkinData = {};
-  
-  const files = Object.keys(zip.files);
-  const mappings: Record<keyof SkinData, string> = {
-    cursor: 'cursor.png',
-    hitcircle: 'hitcircle.png',
-    approachcircle: 'approachcircle.png',
-    cursorTrail: 'cursortrail.png',
-    spinnerBottom: 'spinner-bottom.png',
-    spinnerTop: 'spinner-top.png',
-    taikoInner: 'taiko-drum-inner.png',
-    taikoOuter: 'taiko-drum-outer.png',
-    catcherIdle: 'fruit-catcher-idle.png',
-    catcherKiai: 'fruit-catcher-kiai.png',
-    fruitApple: 'fruit-apple.png',
-    fruitGrapes: 'fruit-grapes.png',
-    fruitPear: 'fruit-pear.png',
-    fruitBanana: 'fruit-bananas.png'
-  };
+  const names = Object.keys(zip.files);
+  const findFile = (name: string) => names.find(n => n.toLowerCase() === name.toLowerCase());
 
-  for (const [key, filename] of Object.entries(mappings)) {
-    const zipFile = files.find(f => f.toLowerCase().endsWith(filename));
-    if (zipFile) {
-      const blob = await zip.files[zipFile].async('blob');
-      (skin as any)[key] = URL.createObjectURL(blob);
-    }
+  const osuFiles: OszContents['osuFiles'] = [];
+  for (const name of names.filter(n => n.endsWith('.osu'))) {
+    osuFiles.push({ name, data: await zip.files[name].async('uint8array') });
   }
-  return skin;
-};
+  if (osuFiles.length === 0) return { osuFiles, audio: null, backgrounds: [], samples: [] };
 
-export const loadOsz = async (file: Blob, audioCtx: AudioContext): Promise<Beatmap[]> => {
-  const zip = await JSZip.loadAsync(file);
-  const osuFiles = Object.keys(zip.files).filter(name => name.endsWith('.osu'));
-  if (osuFiles.length === 0) return [];
-
-  const firstOsuContent = await zip.files[osuFiles[0]].async('text');
-  const audioMatch = firstOsuContent.match(/AudioFilename\s*:\s*(.+)/);
-  const audioFilename = audioMatch ? audioMatch[1].trim().replace(/\\/g, '/') : null;
-
-  let audioBuffer: AudioBuffer | undefined;
-  if (audioFilename) {
-    const fileInZip = Object.keys(zip.files).find(n => n.toLowerCase() === audioFilename.toLowerCase());
-    if (fileInZip) {
-      const audioData = await zip.files[fileInZip].async('arraybuffer');
-      audioBuffer = await audioCtx.decodeAudioData(audioData);
+  const contents = osuFiles.map(f => new TextDecoder().decode(f.data));
+  const audioMatch = contents[0].match(/AudioFilename\s*:\s*(.+)/);
+  const audioFile = audioMatch ? findFile(audioMatch[1].trim().replace(/\\/g, '/')) : undefined;
+  const audio = audioFile ? await zip.files[audioFile].async('arraybuffer') : null;
+
+  const backgrounds: OszContents['backgrounds'] = [];
+  for (const content of contents) {
+    const bgMatch = content.match(BACKGROUND_REGEX);
+    const bgFile = bgMatch ? findFile(bgMatch[1].replace(/\\/g, '/')) : undefined;
+    if (bgFile && !backgrounds.some(b => b.name === bgFile)) {
+      backgrounds.push({ name: bgFile, blob: await zip.files[bgFile].async('blob') });
     }
   }
 
+  const samples: SampleFile[] = [];
+  for (const name of names.filter(n => SAMPLE_REGEX.test(n) && n !== audioFile)) {
+    samples.push({ name, data: await zip.files[name].async('arraybuffer') });
+  }
+
+  return { osuFiles, audio, backgrounds, samples };
+};
+
+/** Parses extracted .osu files into beatmaps. Audio is left to the caller so it can be decoded lazily. */
+export const createBeatmaps = (contents: Pick<OszContents, 'osuFiles' | 'backgrounds'> & Partial<Pick<OszContents, 'samples'>>): Beatmap[] => {
+  const backgroundUrls = new Map<string, string>();
+  const getBackgroundUrl = (name: string) => {
+    const bg = contents.backgrounds.find(b => b.name.toLowerCase() === name.toLowerCase());
+    if (!bg) return undefined;
+    if (!backgroundUrls.has(bg.name)) backgroundUrls.set(bg.name, URL.createObjectURL(bg.blob));
+    return backgroundUrls.get(bg.name);
+  };
+
   const beatmaps: Beatmap[] = [];
-  for (const osuFileName of osuFiles) {
-    const content = await zip.files[osuFileName].async('text');
-    const parsed = parseOsuFile(content, osuFileName);
-    
-    let backgroundUrl: string | undefined;
+  for (const osuFile of contents.osuFiles) {
+    const parsed = parseOsuFile(new TextDecoder().decode(osuFile.data), osuFile.name);
     const bgName = (parsed as any).bgFilename;
-    if (bgName) {
-      const imgFileInZip = Object.keys(zip.files).find(n => n.toLowerCase() === bgName.toLowerCase());
-      if (imgFileInZip) {
-        const bgBlob = await zip.files[imgFileInZip].async('blob');
-        backgroundUrl = URL.createObjectURL(bgBlob);
-      }
-    }
 
     if (parsed.objects && parsed.objects.length > 0) {
+      const checksum = md5(osuFile.data);
       beatmaps.push({
         ...parsed,
-        id: Math.random().toString(36).substr(2, 9),
-        audioBuffer,
-        backgroundUrl
+        id: checksum,
+        checksum,
+        backgroundUrl: bgName ? getBackgroundUrl(bgName) : undefined,
+        samples: contents.samples
       } as Beatmap);
     }
   }
   return beatmaps;
-};
\ No newline at end of file
+};
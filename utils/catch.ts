@@ -0,0 +1,158 @@
+import { HitObject, HitObjectType } from '../types';
+import { getSliderEvents, getSliderPositionAt } from './sliderPath';
+
+// osu!catch turns sliders into juice streams (fruits on the head, repeats and tail, droplets on ticks and
+// tiny droplets in between) and spinners into banana showers. Random offsets come from osu!stable's
+// generator with its fixed seed, so every play of a map drops the same things in the same places.
+
+export type CatchObjectKind = 'fruit' | 'droplet' | 'tinyDroplet' | 'banana';
+
+export interface CatchObject {
+  kind: CatchObjectKind;
+  time: number;
+  x: number;
+  // The beatmap object it was made from
+  parent: HitObject;
+  // Juice stream fruits: edge of the slider it sits on, for its hitsound
+  edge?: number;
+  // Catching this one starts a hyperdash to the target, which can't be reached by dashing
+  hyperDashTarget?: CatchObject;
+  caught?: boolean;
+  missed?: boolean;
+}
+
+const PLAYFIELD_WIDTH = 512;
+const RNG_SEED = 1337;
+
+// Catcher speeds in osu! pixels per ms
+export const CATCHER_WALK_SPEED = 0.5;
+export const CATCHER_DASH_SPEED = 1;
+
+// Only the middle of the plate catches
+const ALLOWED_CATCH_RANGE = 0.8;
+
+// A quarter of a frame at 60fps, so hyperdashes aren't made for movements that are just possible
+const HYPER_DASH_GRACE = 1000 / 60 / 4;
+
+/** Width of the catcher plate in osu! pixels. */
+export const getCatcherWidth = (circleSize: number) => 106.75 * (1 - 0.7 * (circleSize - 5) / 5);
+
+/** Largest distance from the catcher's centre at which something is still caught. */
+export const getCatchRange = (circleSize: number) => getCatcherWidth(circleSize) * ALLOWED_CATCH_RANGE / 2;
+
+// osu!stable's xorshift random generator
+const createLegacyRandom = (seed: number) => {
+  let x = seed >>> 0;
+  let y = 842502087;
+  let z = 3579807591;
+  let w = 273326509;
+  const nextUInt = () => {
+    const t = (x ^ (x << 11)) >>> 0;
+    x = y; y = z; z = w;
+    w = (w ^ (w >>> 19) ^ t ^ (t >>> 8)) >>> 0;
+    return w;
+  };
+  const nextDouble = () => (0x7FFFFFFF & nextUInt()) / 2147483648;
+  return {
+    nextDouble,
+    next: (min = 0, max = 0x7FFFFFFF) => Math.trunc(min + nextDouble() * (max - min))
+  };
+};
+
+const clampX = (x: number) => Math.max(0, Math.min(PLAYFIELD_WIDTH, x));
+
+/** Fruits, droplets and tiny droplets of a juice stream in time order, before random offsets. */
+export const getJuiceStreamParts = (obj: HitObject): Omit<CatchObject, 'parent'>[] => {
+  const parts: Omit<CatchObject, 'parent'>[] = [{ kind: 'fruit', time: obj.time, x: clampX(obj.x), edge: 0 }];
+  let lastTime = obj.time;
+  getSliderEvents(obj).forEach(event => {
+    // Tiny droplets fill the gaps between ticks and edges, never more than 100ms apart
+    const sinceLast = Math.floor(event.time) - Math.floor(lastTime);
+    if (sinceLast > 80) {
+      let spacing = sinceLast;
+      while (spacing > 100) spacing /= 2;
+      for (let t = spacing; t < sinceLast; t += spacing) {
+        parts.push({ kind: 'tinyDroplet', time: lastTime + t, x: clampX(getSliderPositionAt(obj, lastTime + t).x) });
+      }
+    }
+    lastTime = event.time;
+    const x = clampX(getSliderPositionAt(obj, event.time).x);
+    if (event.type === 'tick') parts.push({ kind: 'droplet', time: event.time, x });
+    else parts.push({ kind: 'fruit', time: event.time, x, edge: event.edge });
+  });
+  return parts;
+};
+
+/** Banana times of a banana shower: evenly spread, never more than 100ms apart. */
+export const getBananaTimes = (obj: HitObject) => {
+  let spacing = obj.endTime - obj.time;
+  if (spacing <= 0) return [];
+  while (spacing > 100) spacing /= 2;
+  const times: number[] = [];
+  for (let time = obj.time; time <= obj.endTime; time += spacing) times.push(time);
+  return times;
+};
+
+// Marks every fruit and droplet the catcher can't reach from the previous one, even dashing
+const applyHyperDashes = (objects: CatchObject[], circleSize: number) => {
+  // osu!stable used the whole plate here, not just the part that catches
+  const halfCatcherWidth = getCatcherWidth(circleSize) / 2;
+  const palpable = objects.filter(o => o.kind === 'fruit' || o.kind === 'droplet');
+  let lastDirection = 0;
+  let lastExcess = halfCatcherWidth;
+
+  for (let i = 0; i < palpable.length - 1; i++) {
+    const current = palpable[i];
+    const next = palpable[i + 1];
+    current.hyperDashTarget = undefined;
+
+    const direction = next.x > current.x ? 1 : -1;
+    const timeToNext = next.time - current.time - HYPER_DASH_GRACE;
+    // Room left over from the previous movement in the same direction can be used up
+    const distanceToNext = Math.abs(next.x - current.x) - (lastDirection === direction ? lastExcess : halfCatcherWidth);
+    const distanceToHyper = timeToNext * CATCHER_DASH_SPEED - distanceToNext;
+
+    if (distanceToHyper < 0) {
+      current.hyperDashTarget = next;
+      lastExcess = halfCatcherWidth;
+    } else {
+      lastExcess = Math.max(0, Math.min(halfCatcherWidth, distanceToHyper));
+    }
+    lastDirection = direction;
+  }
+};
+
+/** Everything that falls in a catch play, in time order, with hyperdashes worked out. */
+export const createCatchObjects = (objects: HitObject[], circleSize: number): CatchObject[] => {
+  const rng = createLegacyRandom(RNG_SEED);
+  const result: CatchObject[] = [];
+
+  objects.forEach(obj => {
+    if (obj.type === HitObjectType.SPINNER) {
+      getBananaTimes(obj).forEach(time => {
+        result.push({ kind: 'banana', time, x: rng.nextDouble() * PLAYFIELD_WIDTH, parent: obj });
+        // osu!stable also picked a banana type, rotation and colour
+        rng.next(); rng.next(); rng.next();
+      });
+    } else if (obj.type === HitObjectType.SLIDER) {
+      getJuiceStreamParts(obj).forEach(part => {
+        if (part.kind === 'tinyDroplet') part.x = clampX(part.x + rng.next(-20, 20));
+        // Droplets got a random rotation
+        else if (part.kind === 'droplet') rng.next();
+        result.push({ ...part, parent: obj });
+      });
+    } else {
+      result.push({ kind: 'fruit', time: obj.time, x: clampX(obj.x), parent: obj, edge: 0 });
+    }
+  });
+
+  result.sort((a, b) => a.time - b.time);
+  applyHyperDashes(result, circleSize);
+  return result;
+};
+
+/** How many times faster than dashing a hyperdash from `from` to its target has to move. */
+export const getHyperDashModifier = (from: CatchObject, target: CatchObject) => {
+  const velocity = Math.abs(target.x - from.x) / Math.max(1, target.time - from.time - 1000 / 60);
+  return Math.max(1, velocity / CATCHER_DASH_SPEED);
+};
@@ -0,0 +1,65 @@
+import { Colour } from '../types';
+
+// osu!'s default skin combo colours
+export const DEFAULT_COMBO_COLOURS: Colour[] = [
+  [255, 192, 0],
+  [0, 202, 0],
+  [18, 124, 255],
+  [242, 24, 57]
+];
+
+/** "255,128,0" (an alpha part is ignored) -> [255, 128, 0]. Null when it isn't a colour. */
+export const parseColour = (value: string): Colour | null => {
+  const parts = value.split(',').map(p => parseInt(p.trim()));
+  if (parts.length < 3 || parts.slice(0, 3).some(p => isNaN(p))) return null;
+  return parts.slice(0, 3).map(p => Math.max(0, Math.min(255, p))) as Colour;
+};
+
+/** ComboN entries of a [Colours] section, in order of N. */
+export const parseComboColours = (entries: Record<string, string>): Colour[] =>
+  Object.keys(entries)
+    .filter(key => /^Combo\d+$/i.test(key))
+    .sort((a, b) => parseInt(a.slice(5)) - parseInt(b.slice(5)))
+    .map(key => parseColour(entries[key]))
+    .filter((colour): colour is Colour => colour !== null);
+
+/** Beatmap colours win over the skin's, which win over the defaults. */
+export const getComboColours = (beatmapColours?: Colour[], skinColours?: Colour[]) => {
+  if (beatmapColours && beatmapColours.length > 0) return beatmapColours;
+  if (skinColours && skinColours.length > 0) return skinColours;
+  return DEFAULT_COMBO_COLOURS;
+};
+
+export const getComboColour = (colours: Colour[], comboIndex: number) => colours[comboIndex % colours.length];
+
+export const toCssColour = ([r, g, b]: Colour, alpha = 1) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+const tintCache = new WeakMap<HTMLImageElement, Map<string, HTMLCanvasElement>>();
+
+/** The image multiplied by a colour, the way osu! tints hitcircles. Cached per image and colour. */
+export const getTintedImage = (image: HTMLImageElement, colour: Colour): CanvasImageSource => {
+  // Nothing to tint until the image has loaded
+  if (!image.complete || image.naturalWidth === 0) return image;
+  let tinted = tintCache.get(image);
+  if (!tinted) {
+    tinted = new Map();
+    tintCache.set(image, tinted);
+  }
+  const key = colour.join(',');
+  let canvas = tinted.get(key);
+  if (!canvas) {
+    canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth || image.width;
+    canvas.height = image.naturalHeight || image.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = toCssColour(colour);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Multiply fills the transparent parts too, cut them back out
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(image, 0, 0);
+    tinted.set(key, canvas);
+  }
+  return canvas;
+};
@@ -0,0 +1,49 @@
+// The app's IndexedDB database: imported beatmap sets, their audio and local scores.
+const DB_NAME = 'osu_library';
+const DB_VERSION = 2;
+
+export const SET_STORE = 'sets';
+export const AUDIO_STORE = 'audio';
+export const SCORE_STORE = 'scores';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SET_STORE)) db.createObjectStore(SET_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+        if (!db.objectStoreNames.contains(SCORE_STORE)) {
+          db.createObjectStore(SCORE_STORE, { keyPath: 'id' }).createIndex('beatmapHash', 'beatmapHash');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const runTransaction = async (stores: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => void) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    fn(tx);
+  });
+};
@@ -0,0 +1,408 @@
+import { Beatmap, DifficultyAttributes, GameMode, HitObject, HitObjectType, Mods } from '../types';
+import { getCatcherWidth } from './catch';
+import { getApproachRate, getApproachTime, getHitWindows } from './judgement';
+import { getManiaColumn, getManiaLayout } from './mania';
+import { applyModsToBeatmap, getSpeedMultiplier } from './mods';
+import { getMaxCombo } from './scoring';
+import { getSliderEndPosition } from './sliderPath';
+import { isTaikoRim } from './taiko';
+
+// Strain based difficulty calculation, following the structure of osu!'s calculators: every object
+// adds to a decaying strain per skill, the peak strain of each section is kept and the peaks are
+// summed with decreasing weight from the hardest section down.
+
+const SECTION_LENGTH = 400;
+const DECAY_WEIGHT = 0.9;
+
+// The beatmap fields the calculator needs, small enough to post to a worker
+export type DifficultyInput = Pick<Beatmap, 'mode' | 'objects' | 'approachRate' | 'overallDifficulty' | 'circleSize' | 'hpDrainRate'>;
+
+const decay = (base: number, ms: number) => Math.pow(base, ms / 1000);
+
+/** Highest strain of every section. strains[i] is the skill's strain right after object i. */
+const getStrainPeaks = (times: number[], strains: number[], decayBase: number, sectionLength = SECTION_LENGTH) => {
+  if (times.length === 0) return [];
+  const peaks: number[] = [];
+  let sectionEnd = Math.ceil(times[0] / sectionLength) * sectionLength;
+  let peak = 0;
+
+  for (let i = 0; i < times.length; i++) {
+    while (times[i] > sectionEnd) {
+      peaks.push(peak);
+      // A new section starts with what is left of the previous object's strain
+      peak = i > 0 ? strains[i - 1] * decay(decayBase, sectionEnd - times[i - 1]) : 0;
+      sectionEnd += sectionLength;
+    }
+    peak = Math.max(peak, strains[i]);
+  }
+  peaks.push(peak);
+  return peaks;
+};
+
+/** Sum of section peaks, weighted so the hardest sections count the most. */
+const getStrainDifficulty = (times: number[], strains: number[], decayBase: number, sectionLength = SECTION_LENGTH) =>
+  getStrainPeaks(times, strains, decayBase, sectionLength)
+    .sort((a, b) => b - a)
+    .reduce((sum, p, i) => sum + p * Math.pow(DECAY_WEIGHT, i), 0);
+
+// --- STANDARD ---
+
+const AIM_SKILL_MULTIPLIER = 26.25;
+const AIM_DECAY_BASE = 0.15;
+const AIM_TIMING_THRESHOLD = 107;
+const SPEED_SKILL_MULTIPLIER = 1400;
+const SPEED_DECAY_BASE = 0.3;
+const SINGLE_SPACING_THRESHOLD = 125;
+const MIN_SPEED_BONUS = 75;
+const MAX_SPEED_BONUS = 45;
+const ANGLE_BONUS_BEGIN = 5 * Math.PI / 6;
+const FLASHLIGHT_SKILL_MULTIPLIER = 0.15;
+const FLASHLIGHT_DECAY_BASE = 0.15;
+const FLASHLIGHT_HISTORY = 10;
+const STANDARD_STAR_SCALING = 0.0675;
+
+const diminish = (value: number) => Math.pow(value, 0.99);
+
+interface StandardObject {
+  time: number;
+  strainTime: number;
+  // Unscaled playfield positions, flashlight looks further back than the previous object
+  position: { x: number; y: number };
+  endPosition: { x: number; y: number };
+  jumpDistance: number;
+  // Distance the cursor travelled on the previous object (sliders)
+  travelDistance: number;
+  angle: number | null;
+}
+
+const getRadius = (circleSize: number) => 64 * (1 - 0.7 * (circleSize - 5) / 5) / 2;
+
+const getStandardObjects = (objects: HitObject[], circleSize: number, clockRate: number): StandardObject[] => {
+  const radius = getRadius(circleSize);
+  // Distances are normalised to a circle radius of 52, with a small bonus for very small circles
+  let scaling = 52 / radius;
+  if (radius < 30) scaling *= 1 + Math.min(30 - radius, 5) / 50;
+
+  const list = objects.filter(o => o.type !== HitObjectType.SPINNER);
+  const endOf = (o: HitObject) => o.type === HitObjectType.SLIDER ? getSliderEndPosition(o) : { x: o.x, y: o.y };
+  // The follow circle lets the cursor cut corners, so it doesn't travel the whole path
+  const travelOf = (o: HitObject) => o.type === HitObjectType.SLIDER
+    ? Math.max(0, (o.pixelLength || 0) * (o.slides || 1) - radius * 2.4) * scaling
+    : 0;
+
+  const result: StandardObject[] = [];
+  for (let i = 1; i < list.length; i++) {
+    const cur = list[i];
+    const prev = list[i - 1];
+    const prevEnd = endOf(prev);
+    const jumpDistance = Math.hypot(cur.x - prevEnd.x, cur.y - prevEnd.y) * scaling;
+
+    let angle: number | null = null;
+    if (i >= 2) {
+      const lastLastEnd = endOf(list[i - 2]);
+      const v1 = { x: lastLastEnd.x - prev.x, y: lastLastEnd.y - prev.y };
+      const v2 = { x: cur.x - prevEnd.x, y: cur.y - prevEnd.y };
+      angle = Math.abs(Math.atan2(v1.x * v2.y - v1.y * v2.x, v1.x * v2.x + v1.y * v2.y));
+    }
+
+    result.push({
+      time: cur.time / clockRate,
+      strainTime: Math.max(50, (cur.time - prev.time) / clockRate),
+      position: { x: cur.x, y: cur.y },
+      endPosition: endOf(cur),
+      jumpDistance,
+      travelDistance: travelOf(prev),
+      angle
+    });
+  }
+  return result;
+};
+
+const aimStrainOf = (cur: StandardObject, prev: StandardObject | undefined) => {
+  let angleBonusValue = 0;
+  if (prev && cur.angle !== null && cur.angle > Math.PI / 3) {
+    const bonus = Math.sqrt(
+      Math.max(prev.jumpDistance - 90, 0) * Math.pow(Math.sin(cur.angle - Math.PI / 3), 2) * Math.max(cur.jumpDistance - 90, 0)
+    );
+    angleBonusValue = 1.5 * diminish(Math.max(0, bonus)) / Math.max(AIM_TIMING_THRESHOLD, prev.strainTime);
+  }
+
+  const jump = diminish(cur.jumpDistance);
+  const travel = diminish(cur.travelDistance);
+  return Math.max(
+    angleBonusValue + (jump + travel + Math.sqrt(travel * jump)) / Math.max(cur.strainTime, AIM_TIMING_THRESHOLD),
+    (Math.sqrt(travel * jump) + jump + travel) / cur.strainTime
+  );
+};
+
+const speedStrainOf = (cur: StandardObject) => {
+  const distance = Math.min(SINGLE_SPACING_THRESHOLD, cur.travelDistance + cur.jumpDistance);
+  const deltaTime = Math.max(MAX_SPEED_BONUS, cur.strainTime);
+
+  let speedBonus = 1;
+  if (deltaTime < MIN_SPEED_BONUS) speedBonus = 1 + Math.pow((MIN_SPEED_BONUS - deltaTime) / 40, 2);
+
+  let angleBonus = 1;
+  if (cur.angle !== null && cur.angle < ANGLE_BONUS_BEGIN) {
+    angleBonus = 1 + Math.pow(Math.sin(1.5 * (ANGLE_BONUS_BEGIN - cur.angle)), 2) / 3.57;
+    if (cur.angle < Math.PI / 2) {
+      angleBonus = 1.28;
+      if (distance < 90 && cur.angle < Math.PI / 4) {
+        angleBonus += (1 - angleBonus) * Math.min((90 - distance) / 10, 1);
+      } else if (distance < 90) {
+        angleBonus += (1 - angleBonus) * Math.min((90 - distance) / 10, 1) * Math.sin((Math.PI / 2 - cur.angle) / (Math.PI / 4));
+      }
+    }
+  }
+
+  return (1 + (speedBonus - 1) * 0.75) * angleBonus
+    * (0.95 + speedBonus * Math.pow(distance / SINGLE_SPACING_THRESHOLD, 3.5)) / cur.strainTime;
+};
+
+// Memorising the map under flashlight: close, recent objects that are spread apart are the hardest
+const flashlightStrainOf = (list: StandardObject[], index: number, scaling: number) => {
+  const cur = list[index];
+  let result = 0;
+  let cumulativeStrainTime = 0;
+  for (let i = index - 1; i >= Math.max(0, index - FLASHLIGHT_HISTORY); i--) {
+    const prev = list[i];
+    cumulativeStrainTime += list[i + 1].strainTime;
+    const distance = Math.hypot(cur.position.x - prev.endPosition.x, cur.position.y - prev.endPosition.y);
+    // Stacked objects are seen together
+    const stackNerf = Math.min(1, prev.jumpDistance / scaling / 25);
+    result += stackNerf * scaling * distance / cumulativeStrainTime;
+  }
+  return result * result;
+};
+
+const getStandardRatings = (input: DifficultyInput, clockRate: number) => {
+  const list = getStandardObjects(input.objects, input.circleSize, clockRate);
+  const scaling = 52 / getRadius(input.circleSize);
+  const times = list.map(o => o.time);
+  const aim: number[] = [];
+  const speed: number[] = [];
+  const flashlight: number[] = [];
+  let aimStrain = 0;
+  let speedStrain = 0;
+  let flashlightStrain = 0;
+
+  list.forEach((cur, i) => {
+    aimStrain = aimStrain * decay(AIM_DECAY_BASE, cur.strainTime) + aimStrainOf(cur, list[i - 1]) * AIM_SKILL_MULTIPLIER;
+    speedStrain = speedStrain * decay(SPEED_DECAY_BASE, cur.strainTime) + speedStrainOf(cur) * SPEED_SKILL_MULTIPLIER;
+    flashlightStrain = flashlightStrain * decay(FLASHLIGHT_DECAY_BASE, cur.strainTime)
+      + flashlightStrainOf(list, i, scaling) * FLASHLIGHT_SKILL_MULTIPLIER;
+    aim.push(aimStrain);
+    speed.push(speedStrain);
+    flashlight.push(flashlightStrain);
+  });
+
+  const aimRating = Math.sqrt(getStrainDifficulty(times, aim, AIM_DECAY_BASE)) * STANDARD_STAR_SCALING;
+  const speedRating = Math.sqrt(getStrainDifficulty(times, speed, SPEED_DECAY_BASE)) * STANDARD_STAR_SCALING;
+  // Flashlight is about the whole map, so every section counts fully
+  const flashlightValue = getStrainPeaks(times, flashlight, FLASHLIGHT_DECAY_BASE).reduce((sum, p) => sum + p, 0) * 1.06;
+  const flashlightRating = Math.sqrt(flashlightValue) * STANDARD_STAR_SCALING;
+  return { aimRating, speedRating, flashlightRating, starRating: aimRating + speedRating + Math.abs(aimRating - speedRating) / 2 };
+};
+
+// --- TAIKO ---
+
+const TAIKO_DECAY_BASE = 0.3;
+const TAIKO_STAR_SCALING = 0.04125;
+const COLOUR_CHANGE_BONUS = 0.75;
+const RHYTHM_CHANGE_BONUS = 1;
+const RHYTHM_CHANGE_BASE = 2;
+const RHYTHM_CHANGE_THRESHOLD = 0.2;
+
+const getTaikoRating = (input: DifficultyInput, clockRate: number) => {
+  const notes = input.objects.filter(o => o.type === HitObjectType.CIRCLE);
+  const times: number[] = [];
+  const strains: number[] = [];
+  let strain = 0;
+  // Lengths of the last two single-colour streaks, alternating odd/even patterns are easier
+  let streak = 1;
+  let previousStreak = 0;
+
+  for (let i = 1; i < notes.length; i++) {
+    const cur = notes[i];
+    const prev = notes[i - 1];
+    const deltaTime = (cur.time - prev.time) / clockRate;
+    let addition = 1;
+
+    if (isTaikoRim(cur) !== isTaikoRim(prev)) {
+      if (deltaTime < 1000 && previousStreak > 0 && previousStreak % 2 !== streak % 2) addition += COLOUR_CHANGE_BONUS;
+      previousStreak = streak;
+      streak = 1;
+    } else {
+      streak++;
+    }
+
+    if (i >= 2 && deltaTime < 1000) {
+      const prevDelta = (prev.time - notes[i - 2].time) / clockRate;
+      const ratio = Math.max(prevDelta / deltaTime, deltaTime / prevDelta);
+      if (ratio < 8) {
+        const difference = (Math.log(ratio) / Math.log(RHYTHM_CHANGE_BASE)) % 1;
+        if (difference > RHYTHM_CHANGE_THRESHOLD && difference < 1 - RHYTHM_CHANGE_THRESHOLD) addition += RHYTHM_CHANGE_BONUS;
+      }
+    }
+
+    // Notes closer than 50ms are usually played with both hands, which is easier than it looks
+    const additionFactor = deltaTime < 50 ? 0.4 + 0.6 * deltaTime / 50 : 1;
+    strain = strain * decay(TAIKO_DECAY_BASE, deltaTime) + addition * additionFactor;
+    times.push(cur.time / clockRate);
+    strains.push(strain);
+  }
+
+  return getStrainDifficulty(times, strains, TAIKO_DECAY_BASE) * TAIKO_STAR_SCALING;
+};
+
+// --- CATCH ---
+
+const CATCH_SKILL_MULTIPLIER = 900;
+const CATCH_DECAY_BASE = 0.2;
+const CATCH_SECTION_LENGTH = 750;
+const CATCH_STAR_SCALING = 0.153;
+const NORMALIZED_HITOBJECT_RADIUS = 41;
+const ABSOLUTE_PLAYER_POSITIONING_ERROR = 16;
+const DIRECTION_CHANGE_BONUS = 21;
+
+const getCatchRating = (input: DifficultyInput, clockRate: number) => {
+  const halfCatcherWidth = getCatcherWidth(input.circleSize) / 2 * 0.8;
+  const scaling = NORMALIZED_HITOBJECT_RADIUS / halfCatcherWidth;
+
+  // Fruits and slider tails, the things the game makes you catch
+  const fruits: { time: number; x: number }[] = [];
+  input.objects.forEach(o => {
+    if (o.type === HitObjectType.SPINNER) return;
+    fruits.push({ time: o.time, x: o.x });
+    if (o.type === HitObjectType.SLIDER) fruits.push({ time: o.endTime, x: getSliderEndPosition(o).x });
+  });
+  fruits.sort((a, b) => a.time - b.time);
+  if (fruits.length < 2) return 0;
+
+  const times: number[] = [];
+  const strains: number[] = [];
+  let strain = 0;
+  let lastPlayerPosition = fruits[0].x * scaling;
+  let lastDistanceMoved = 0;
+  let lastStrainTime = 0;
+
+  for (let i = 1; i < fruits.length; i++) {
+    const position = fruits[i].x * scaling;
+    const strainTime = Math.max(40, (fruits[i].time - fruits[i - 1].time) / clockRate);
+    const reach = NORMALIZED_HITOBJECT_RADIUS - ABSOLUTE_PLAYER_POSITIONING_ERROR;
+    const playerPosition = Math.max(position - reach, Math.min(position + reach, lastPlayerPosition));
+    const distanceMoved = playerPosition - lastPlayerPosition;
+    const weightedStrainTime = strainTime + 13 + 3 / clockRate;
+
+    let distanceAddition = Math.pow(Math.abs(distanceMoved), 1.3) / 510;
+    if (Math.abs(distanceMoved) > 0.1) {
+      if (lastDistanceMoved !== 0 && Math.sign(distanceMoved) !== Math.sign(lastDistanceMoved)) {
+        const bonusFactor = Math.min(50, Math.abs(distanceMoved)) / 50;
+        const antiflowFactor = Math.max(Math.min(70, Math.abs(lastDistanceMoved)) / 70, 0.38);
+        distanceAddition += DIRECTION_CHANGE_BONUS / Math.sqrt(lastStrainTime + 16) * bonusFactor * antiflowFactor
+          * Math.max(1 - Math.pow(weightedStrainTime / 1000, 3), 0);
+      }
+      distanceAddition += 12.5 * Math.min(Math.abs(distanceMoved), NORMALIZED_HITOBJECT_RADIUS * 2)
+        / (NORMALIZED_HITOBJECT_RADIUS * 6) / Math.sqrt(weightedStrainTime);
+    }
+
+    lastPlayerPosition = playerPosition;
+    lastDistanceMoved = distanceMoved;
+    lastStrainTime = strainTime;
+
+    strain = strain * decay(CATCH_DECAY_BASE, strainTime) + distanceAddition / weightedStrainTime * CATCH_SKILL_MULTIPLIER;
+    times.push(fruits[i].time / clockRate);
+    strains.push(strain);
+  }
+
+  return Math.sqrt(getStrainDifficulty(times, strains, CATCH_DECAY_BASE, CATCH_SECTION_LENGTH)) * CATCH_STAR_SCALING;
+};
+
+// --- MANIA ---
+
+const INDIVIDUAL_DECAY_BASE = 0.125;
+const OVERALL_DECAY_BASE = 0.3;
+const MANIA_STAR_SCALING = 0.018;
+
+const getManiaRating = (input: DifficultyInput, clockRate: number) => {
+  const keyCount = getManiaLayout(input.circleSize).keys;
+  const notes = [...input.objects].sort((a, b) => a.time - b.time);
+  const holdEndTimes = new Array(keyCount).fill(0);
+  const individualStrains = new Array(keyCount).fill(0);
+  const lastColumnTimes = new Array(keyCount).fill(0);
+  let overallStrain = 1;
+  const times: number[] = [];
+  const strains: number[] = [];
+
+  for (let i = 1; i < notes.length; i++) {
+    const cur = notes[i];
+    const startTime = cur.time / clockRate;
+    const endTime = cur.endTime / clockRate;
+    const deltaTime = (cur.time - notes[i - 1].time) / clockRate;
+    const column = getManiaColumn(cur.x, keyCount);
+
+    // Notes during someone else's hold are harder, ending together with it is not
+    let holdFactor = 1;
+    let holdAddition = 0;
+    for (let c = 0; c < keyCount; c++) {
+      if (endTime > holdEndTimes[c] && startTime < holdEndTimes[c]) holdAddition = 1;
+      if (endTime === holdEndTimes[c]) holdAddition = 0;
+      if (holdEndTimes[c] > endTime) holdFactor = 1.25;
+    }
+    holdEndTimes[column] = endTime;
+
+    individualStrains[column] = individualStrains[column] * decay(INDIVIDUAL_DECAY_BASE, startTime - lastColumnTimes[column]) + 2 * holdFactor;
+    lastColumnTimes[column] = startTime;
+    overallStrain = overallStrain * decay(OVERALL_DECAY_BASE, deltaTime) + (1 + holdAddition) * holdFactor;
+
+    times.push(startTime);
+    strains.push(individualStrains[column] + overallStrain);
+  }
+
+  // Column strains decay by themselves, the combined value doesn't decay between notes
+  return getStrainDifficulty(times, strains, 1) * MANIA_STAR_SCALING;
+};
+
+/** Star rating and the attributes pp needs. Mods change the rate and AR/CS/OD like they do in game. */
+export const calculateDifficulty = (beatmap: DifficultyInput, mods: Mods = 0): DifficultyAttributes => {
+  const clockRate = getSpeedMultiplier(mods);
+  const adjusted = applyModsToBeatmap(beatmap as Beatmap, mods);
+  const objects = beatmap.objects;
+
+  // AR and OD as they feel after the rate change
+  const approachRate = getApproachRate(getApproachTime(adjusted.approachRate) / clockRate);
+  const greatWindow = getHitWindows(beatmap.mode, adjusted.overallDifficulty).windows.find(w => w.result === '300');
+  const greatHitWindow = greatWindow ? greatWindow.window / clockRate : 0;
+
+  const attributes: DifficultyAttributes = {
+    starRating: 0,
+    aimRating: 0,
+    speedRating: 0,
+    flashlightRating: 0,
+    maxCombo: getMaxCombo(beatmap),
+    approachRate,
+    // Only standard's 300 window maps back to OD this simply, the other modes keep the mod adjusted value
+    overallDifficulty: beatmap.mode === GameMode.STANDARD ? (80 - greatHitWindow) / 6 : adjusted.overallDifficulty,
+    greatHitWindow,
+    hitCircleCount: objects.filter(o => o.type === HitObjectType.CIRCLE).length,
+    sliderCount: objects.filter(o => o.type === HitObjectType.SLIDER).length,
+    spinnerCount: objects.filter(o => o.type === HitObjectType.SPINNER).length
+  };
+  if (objects.length === 0) return attributes;
+
+  const input = { ...beatmap, circleSize: adjusted.circleSize };
+  switch (beatmap.mode) {
+    case GameMode.TAIKO:
+      attributes.starRating = getTaikoRating(input, clockRate);
+      break;
+    case GameMode.CATCH:
+      attributes.starRating = getCatchRating(input, clockRate);
+      break;
+    case GameMode.MANIA:
+      attributes.starRating = getManiaRating(input, clockRate);
+      break;
+    default:
+      Object.assign(attributes, getStandardRatings(input, clockRate));
+  }
+  return attributes;
+};
@@ -0,0 +1,9 @@
+import { Mods } from '../types';
+import { DifficultyInput, calculateDifficulty } from './difficulty';
+
+// Calculates star ratings off the main thread so big imports don't freeze the UI
+
+self.onmessage = (e: MessageEvent<{ id: number; maps: DifficultyInput[]; mods?: Mods }>) => {
+  const { id, maps, mods } = e.data;
+  self.postMessage({ id, attributes: maps.map(map => calculateDifficulty(map, mods)) });
+};
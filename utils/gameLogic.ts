@@ -1,4 +1,5 @@
 import { HitObject, Beatmap, HitObjectType, GameMode } from '../types';
+import { calculateDifficulty } from './difficulty';
 
 export const generateSampleBeatmap = (title: string, diff: string): Beatmap => {
   const objects: HitObject[] = [];
@@ -16,20 +17,24 @@ export const generateSampleBeatmap = (title: string, diff: string): Beatmap => {
       endTime: time,
       hit: false,
       missed: false,
-      hitSound: 0
+      hitSound: 0,
+      newCombo: i % 4 === 0,
+      comboIndex: Math.floor(i / 4),
+      comboNumber: i % 4 + 1
     });
   }
 
-  return {
+  const beatmap: Beatmap = {
     id: Math.random().toString(36).substr(2, 9),
     title,
     artist: "Demo Artist",
     creator: "System",
     difficulty: diff,
-    difficultyValue: 5,
+    difficultyValue: 0,
     approachRate: 5,
     overallDifficulty: 5,
     circleSize: 5,
+    hpDrainRate: 5,
     bpm: 120,
     objects,
     timingPoints: [],
@@ -37,4 +42,7 @@ export const generateSampleBeatmap = (title: string, diff: string): Beatmap => {
     sourceFile: "generated",
     mode: GameMode.STANDARD
   };
+  // Few enough objects to rate on the spot
+  const difficultyAttributes = calculateDifficulty(beatmap);
+  return { ...beatmap, difficultyAttributes, difficultyValue: difficultyAttributes.starRating };
 };
\ No newline at end of file
@@ -0,0 +1,27 @@
+// The Gamepad API has no button events, so gamepads are polled: read the pressed buttons every frame and
+// compare with the last read. Button indices follow the browser's "standard" mapping (Xbox layout).
+
+const BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', '↑', '↓', '←', '→', 'Home'];
+
+// How far the stick has to be pushed before it counts
+const STICK_DEADZONE = 0.25;
+
+/** The first connected gamepad, or null. */
+export const getGamepad = (): Gamepad | null => {
+  if (!navigator.getGamepads) return null;
+  return Array.from(navigator.getGamepads()).find((pad): pad is Gamepad => !!pad && pad.connected) || null;
+};
+
+/** Indices of the buttons held down on a gamepad. */
+export const getPressedButtons = (pad: Gamepad) =>
+  pad.buttons.reduce<number[]>((pressed, button, i) => button.pressed ? [...pressed, i] : pressed, []);
+
+/** Left stick, -1 (left) to 1 (right) with the deadzone taken out. */
+export const getStickX = (pad: Gamepad) => {
+  const x = pad.axes[0] || 0;
+  if (Math.abs(x) < STICK_DEADZONE) return 0;
+  return Math.sign(x) * Math.min(1, (Math.abs(x) - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+};
+
+/** Label of a bound button, "-" for none. */
+export const getGamepadButtonName = (button: number) => button < 0 ? '-' : BUTTON_NAMES[button] || `#${button}`;
@@ -0,0 +1,41 @@
+import { Beatmap, HitResult } from '../types';
+import { difficultyRange } from './judgement';
+
+// Health is kept as a fraction of the full bar
+export const MAX_HEALTH = 1;
+
+/** Passive drain per millisecond of gameplay. */
+export const getDrainRate = (hpDrainRate: number) => {
+  return difficultyRange(hpDrainRate, 0.01, 0.035, 0.07) / 1000;
+};
+
+/** Health gained (or lost, if negative) for a judgement. Higher HP shrinks gains and grows penalties. */
+export const getHealthChange = (result: HitResult, hpDrainRate: number) => {
+  const gainScale = difficultyRange(hpDrainRate, 1.25, 1, 0.75);
+  switch (result) {
+    case 'MAX':
+    case '300': return 0.04 * gainScale;
+    case '200': return 0.03 * gainScale;
+    case '100': return 0.02 * gainScale;
+    case '50': return 0.005 * gainScale;
+    case 'bonus':
+    case 'sliderTick': return 0.01 * gainScale;
+    case 'miss': return -difficultyRange(hpDrainRate, 0.05, 0.1, 0.2);
+    case 'sliderTickMiss': return -difficultyRange(hpDrainRate, 0.0125, 0.025, 0.05);
+    default: return 0;
+  }
+};
+
+export const clampHealth = (health: number) => Math.max(0, Math.min(MAX_HEALTH, health));
+
+/** Time range in which health drains, from the first object to the end of the last one. */
+export const getDrainPeriod = (beatmap: Beatmap) => {
+  const objects = beatmap.objects;
+  if (objects.length === 0) return { start: 0, end: 0 };
+  return { start: objects[0].time, end: Math.max(...objects.map(o => o.endTime)) };
+};
+
+/** Whether health drains at a time: inside the drain period and outside every break. */
+export const isDraining = (beatmap: Beatmap, drainPeriod: { start: number; end: number }, time: number) =>
+  time >= drainPeriod.start && time <= drainPeriod.end &&
+  !(beatmap.breaks || []).some(period => time >= period.start && time <= period.end);
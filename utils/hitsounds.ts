@@ -0,0 +1,184 @@
+import { Beatmap, GameMode, HitObject, HitSample, HitSound, SampleFile, SampleSet } from '../types';
+import { getTimingStateAt, getTimingStates } from './timing';
+
+// Hitsounds are looked up like osu! does: the beatmap's own samples first (only when the timing point
+// or object asks for a custom sample index), then the skin, then the built-in defaults.
+
+export interface HitsoundBank {
+  beatmap: Map<string, AudioBuffer>;
+  skin: Map<string, AudioBuffer>;
+  defaults: Map<string, AudioBuffer>;
+}
+
+export interface PlayedSample {
+  // Sample name without extension, e.g. "soft-hitwhistle"
+  name: string;
+  index: number;
+  volume: number;
+  filename?: string;
+}
+
+const SAMPLE_SET_NAMES: Record<number, string> = {
+  [SampleSet.Normal]: 'normal',
+  [SampleSet.Soft]: 'soft',
+  [SampleSet.Drum]: 'drum'
+};
+
+const ADDITIONS: [HitSound, string][] = [
+  [HitSound.Whistle, 'hitwhistle'],
+  [HitSound.Finish, 'hitfinish'],
+  [HitSound.Clap, 'hitclap']
+];
+
+// osu! applies a timing point's samples from slightly before it
+const SAMPLE_POINT_LENIENCY = 5;
+
+/** "Folder/Soft-HitClap2.wav" -> "soft-hitclap2" */
+const toSampleName = (fileName: string) => fileName.split('/').pop()!.replace(/\.[^.]+$/, '').toLowerCase();
+
+const decodeCache = new WeakMap<SampleFile[], Promise<Map<string, AudioBuffer>>>();
+
+/** Decodes sample files once per set of files. Files that fail to decode are skipped. */
+export const decodeSamples = (audioCtx: BaseAudioContext, files?: SampleFile[]): Promise<Map<string, AudioBuffer>> => {
+  if (!files || files.length === 0) return Promise.resolve(new Map());
+  let pending = decodeCache.get(files);
+  if (!pending) {
+    pending = Promise.all(files.map(async file => {
+      try {
+        // decodeAudioData detaches the buffer it is given
+        return [toSampleName(file.name), await audioCtx.decodeAudioData(file.data.slice(0))] as const;
+      } catch (e) {
+        return null;
+      }
+    })).then(decoded => new Map(decoded.filter((d): d is readonly [string, AudioBuffer] => d !== null)));
+    decodeCache.set(files, pending);
+  }
+  return pending;
+};
+
+// --- BUILT-IN SAMPLES ---
+
+const defaultCache = new WeakMap<BaseAudioContext, Map<string, AudioBuffer>>();
+
+const synthesize = (audioCtx: BaseAudioContext, duration: number, fn: (t: number, noise: number) => number) => {
+  const buffer = audioCtx.createBuffer(1, Math.ceil(audioCtx.sampleRate * duration), audioCtx.sampleRate);
+  const data = buffer.getChannelData(0);
+  // Fixed seed so the defaults sound the same every time
+  let seed = 1;
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7FFFFFFF;
+    data[i] = Math.max(-1, Math.min(1, fn(i / audioCtx.sampleRate, seed / 0x3FFFFFFF - 1)));
+  }
+  return buffer;
+};
+
+// Simple synthesized stand-ins, one tone per sample set
+const createDefaultSamples = (audioCtx: BaseAudioContext) => {
+  const samples = new Map<string, AudioBuffer>();
+  const tones: Record<string, number> = { normal: 1, soft: 0.7, drum: 0.5 };
+  Object.entries(tones).forEach(([set, tone]) => {
+    const sine = (t: number, freq: number) => Math.sin(2 * Math.PI * freq * tone * t);
+    samples.set(`${set}-hitnormal`, synthesize(audioCtx, 0.12, (t, n) =>
+      (n * 0.4 + sine(t, 220) * 0.6) * Math.exp(-t * 45) * 0.6));
+    samples.set(`${set}-hitwhistle`, synthesize(audioCtx, 0.25, t =>
+      sine(t, 1600 + t * 1600) * Math.min(1, t * 80) * Math.exp(-t * 14) * 0.35));
+    samples.set(`${set}-hitfinish`, synthesize(audioCtx, 0.9, (t, n) =>
+      (n * 0.7 + sine(t, 520) * 0.3) * Math.exp(-t * 5) * 0.4));
+    samples.set(`${set}-hitclap`, synthesize(audioCtx, 0.15, (t, n) =>
+      n * (Math.exp(-t * 60) + Math.exp(-Math.max(0, t - 0.012) * 60) * (t > 0.012 ? 1 : 0)) * 0.3));
+    samples.set(`${set}-slidertick`, synthesize(audioCtx, 0.05, t =>
+      sine(t, 2400) * Math.exp(-t * 90) * 0.3));
+  });
+  return samples;
+};
+
+export const getDefaultSamples = (audioCtx: BaseAudioContext) => {
+  let samples = defaultCache.get(audioCtx);
+  if (!samples) {
+    samples = createDefaultSamples(audioCtx);
+    defaultCache.set(audioCtx, samples);
+  }
+  return samples;
+};
+
+/** Decodes everything a play needs to make hitsounds. */
+export const loadHitsoundBank = async (audioCtx: BaseAudioContext, beatmapSamples?: SampleFile[], skinSamples?: SampleFile[]): Promise<HitsoundBank> => {
+  const [beatmap, skin] = await Promise.all([decodeSamples(audioCtx, beatmapSamples), decodeSamples(audioCtx, skinSamples)]);
+  return { beatmap, skin, defaults: getDefaultSamples(audioCtx) };
+};
+
+// --- SAMPLE SELECTION ---
+
+const getSamplePointAt = (beatmap: Beatmap, time: number) =>
+  getTimingStateAt(getTimingStates(beatmap.timingPoints), time + SAMPLE_POINT_LENIENCY);
+
+/**
+ * Samples to play for a hitsound at the given time. Pass `sets` to override the object's sample sets
+ * (slider edges), and `hitSound` for a different set of additions.
+ */
+export const getHitSamples = (
+  beatmap: Beatmap,
+  obj: HitObject,
+  time: number,
+  hitSound = obj.hitSound,
+  sets?: Partial<Pick<HitSample, 'normalSet' | 'additionSet'>>
+): PlayedSample[] => {
+  const point = getSamplePointAt(beatmap, time);
+  const sample = obj.hitSample;
+  const index = sample?.index || point.sampleIndex || 0;
+  const volume = sample?.volume || point.volume;
+  if (sample?.filename) return [{ name: toSampleName(sample.filename), index, volume, filename: sample.filename }];
+
+  const normalSet = sets?.normalSet || sample?.normalSet || point.sampleSet || beatmap.sampleSet || SampleSet.Normal;
+  const additionSet = sets?.additionSet || sample?.additionSet || normalSet;
+  const normalName = SAMPLE_SET_NAMES[normalSet] || 'normal';
+  const additionName = SAMPLE_SET_NAMES[additionSet] || 'normal';
+
+  const samples: PlayedSample[] = [{ name: `${normalName}-hitnormal`, index, volume }];
+  ADDITIONS.forEach(([bit, sound]) => {
+    if (hitSound & bit) samples.push({ name: `${additionName}-${sound}`, index, volume });
+  });
+  return samples;
+};
+
+/** Samples for a slider's head, repeat or tail. */
+export const getSliderEdgeSamples = (beatmap: Beatmap, obj: HitObject, edge: number, time: number) =>
+  getHitSamples(beatmap, obj, time, obj.edgeSounds?.[edge] ?? obj.hitSound, obj.edgeSets?.[edge]);
+
+export const getSliderTickSamples = (beatmap: Beatmap, obj: HitObject, time: number): PlayedSample[] => {
+  const point = getSamplePointAt(beatmap, time);
+  const set = obj.hitSample?.normalSet || point.sampleSet || beatmap.sampleSet || SampleSet.Normal;
+  return [{
+    name: `${SAMPLE_SET_NAMES[set] || 'normal'}-slidertick`,
+    index: obj.hitSample?.index || point.sampleIndex || 0,
+    volume: obj.hitSample?.volume || point.volume
+  }];
+};
+
+const findBuffer = (bank: HitsoundBank, sample: PlayedSample, mode: GameMode) => {
+  if (sample.filename) return bank.beatmap.get(sample.name);
+  // Index 0 means the skin's samples, 1 the beatmap's unnumbered ones
+  if (sample.index > 0) {
+    const custom = bank.beatmap.get(sample.index > 1 ? `${sample.name}${sample.index}` : sample.name);
+    if (custom) return custom;
+  }
+  if (mode === GameMode.TAIKO) {
+    const taiko = bank.skin.get(`taiko-${sample.name}`);
+    if (taiko) return taiko;
+  }
+  return bank.skin.get(sample.name) || bank.defaults.get(sample.name);
+};
+
+/** Plays the given samples right away through the context's output. */
+export const playSamples = (audioCtx: AudioContext, bank: HitsoundBank, samples: PlayedSample[], mode: GameMode) => {
+  samples.forEach(sample => {
+    const buffer = findBuffer(bank, sample, mode);
+    if (!buffer || sample.volume <= 0) return;
+    const source = audioCtx.createBufferSource();
+    const gain = audioCtx.createGain();
+    source.buffer = buffer;
+    gain.gain.value = Math.min(100, sample.volume) / 100;
+    source.connect(gain).connect(audioCtx.destination);
+    source.start();
+  });
+};
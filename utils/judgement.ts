@@ -0,0 +1,151 @@
+import { GameMode, HitResult } from '../types';
+
+export interface HitWindow {
+  result: HitResult;
+  window: number; // ms, applies both early and late
+}
+
+export interface HitWindows {
+  // Ordered from the tightest window to the widest
+  windows: HitWindow[];
+  // Presses inside this range but outside every window count as a miss, later ones are ignored
+  miss: number;
+}
+
+/** Linear interpolation through the values osu! gives for a difficulty setting (OD, HP, ...) of 0, 5 and 10. */
+export const difficultyRange = (value: number, min: number, mid: number, max: number) => {
+  if (value > 5) return mid + (max - mid) * (value - 5) / 5;
+  if (value < 5) return mid - (mid - min) * (5 - value) / 5;
+  return mid;
+};
+
+/** How long before its time an object appears (preempt), in ms. */
+export const getApproachTime = (ar: number) => {
+  if (ar < 5) return 1200 + 600 * (5 - ar) / 5;
+  if (ar === 5) return 1200;
+  return 1200 - 750 * (ar - 5) / 5;
+};
+
+/** Inverse of getApproachTime, used to express rate-adjusted preempt as AR. */
+export const getApproachRate = (approachTime: number) => {
+  if (approachTime > 1200) return (1800 - approachTime) / 120;
+  return (1200 - approachTime) / 150 + 5;
+};
+
+export const getHitWindows = (mode: GameMode, overallDifficulty: number): HitWindows => {
+  const od = Math.max(0, Math.min(10, overallDifficulty));
+
+  switch (mode) {
+    case GameMode.TAIKO: {
+      // GREAT / OK are reported as 300 / 100
+      return {
+        windows: [
+          { result: '300', window: difficultyRange(od, 50, 35, 20) },
+          { result: '100', window: difficultyRange(od, 120, 80, 50) }
+        ],
+        miss: difficultyRange(od, 135, 95, 70)
+      };
+    }
+    case GameMode.MANIA: {
+      return {
+        windows: [
+          { result: 'MAX', window: 16 },
+          { result: '300', window: 64 - 3 * od },
+          { result: '200', window: 97 - 3 * od },
+          { result: '100', window: 127 - 3 * od },
+          { result: '50', window: 151 - 3 * od }
+        ],
+        miss: 188 - 3 * od
+      };
+    }
+    case GameMode.CATCH: {
+      // Fruits are judged by position when they reach the plate, not by timing
+      return { windows: [], miss: 0 };
+    }
+    default: {
+      const meh = 200 - 10 * od;
+      return {
+        windows: [
+          { result: '300', window: 80 - 6 * od },
+          { result: '100', window: 140 - 8 * od },
+          { result: '50', window: meh }
+        ],
+        miss: meh
+      };
+    }
+  }
+};
+
+/** How a judgement is shown in a mode: taiko calls its 300/100 GREAT/OK. */
+export const getJudgementName = (mode: GameMode, result: HitResult) => {
+  if (result === 'miss') return mode === GameMode.TAIKO ? 'MISS' : '×';
+  if (mode === GameMode.TAIKO) return result === '300' ? 'GREAT' : result === '100' ? 'OK' : result;
+  return result;
+};
+
+/** Judges a press `offset` ms after the object time. Returns null if the press is too far away to count. */
+export const judgeHit = (hitWindows: HitWindows, offset: number): HitResult | null => {
+  const abs = Math.abs(offset);
+  for (const w of hitWindows.windows) {
+    if (abs <= w.window) return w.result;
+  }
+  if (abs <= hitWindows.miss) return 'miss';
+  return null;
+};
+
+/** Widest window in either direction, anything outside it can no longer be hit. */
+export const getLatestHitWindow = (hitWindows: HitWindows) => {
+  const last = hitWindows.windows[hitWindows.windows.length - 1];
+  return Math.max(hitWindows.miss, last ? last.window : 0);
+};
+
+/** True once an unhit object is past its last chance to be hit. */
+export const hasExpired = (hitWindows: HitWindows, timeSinceObject: number) => {
+  return timeSinceObject > getLatestHitWindow(hitWindows);
+};
+
+// Releasing a hold note is judged more loosely than pressing it, like in osu!mania
+const HOLD_RELEASE_LENIENCE = 1.5;
+
+/** How far from a hold note's end the key may be let go without breaking the hold. */
+export const getHoldReleaseWindow = (hitWindows: HitWindows) => {
+  const last = hitWindows.windows[hitWindows.windows.length - 1];
+  return (last ? last.window : hitWindows.miss) * HOLD_RELEASE_LENIENCE;
+};
+
+/**
+ * Final judgement of a mania hold note the way osu!mania combines its head and tail: the head has to be
+ * inside a window and both offsets together inside twice that window, with some extra room for MAX and 300.
+ * Anything that was hit but misses every window is a 50, and so is a hold that was let go before its end.
+ */
+export const getHoldResult = (hitWindows: HitWindows, headOffset: number, tailOffset: number, broken = false): HitResult => {
+  if (broken) return '50';
+  const head = Math.abs(headOffset);
+  const combined = head + Math.abs(tailOffset) / HOLD_RELEASE_LENIENCE;
+  for (const w of hitWindows.windows) {
+    const window = w.window * (w.result === 'MAX' ? 1.2 : w.result === '300' ? 1.1 : 1);
+    if (head <= window && combined <= window * 2) return w.result;
+  }
+  return '50';
+};
+
+/** Full spins a standard spinner needs to be cleared, from its length in ms and OD. */
+export const getSpinnerRequiredSpins = (duration: number, overallDifficulty: number) =>
+  Math.floor(duration / 1000 * difficultyRange(overallDifficulty, 1.5, 2.5, 3.75));
+
+/** Final judgement of a standard spinner from how much of the required spinning was done, like osu!lazer. */
+export const getSpinnerResult = (spins: number, required: number): HitResult => {
+  const progress = required > 0 ? spins / required : 1;
+  if (progress >= 1) return '300';
+  if (progress > 0.9) return '100';
+  if (progress > 0.75) return '50';
+  return 'miss';
+};
+
+/** Final judgement of a standard slider from how many of its head, ticks, repeats and tail were hit. */
+export const getSliderResult = (hits: number, total: number): HitResult => {
+  if (hits >= total) return '300';
+  if (hits * 2 >= total) return '100';
+  if (hits > 0) return '50';
+  return 'miss';
+};
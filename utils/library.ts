@@ -0,0 +1,231 @@
+import { Beatmap, DifficultyAttributes, Mods } from '../types';
+import { OszContents, createBeatmaps, extractOsz } from './beatmapParser';
+import { AUDIO_STORE, SET_STORE, openDatabase, runTransaction, toPromise } from './db';
+import { DifficultyInput, calculateDifficulty } from './difficulty';
+import { md5 } from './md5';
+import { DIFFICULTY_MODS } from './mods';
+
+// Imported sets live in IndexedDB so the library survives reloads. Song audio is kept in its
+// own store and only read and decoded when a set is previewed or played.
+
+export interface LibrarySet {
+  id: string;
+  title: string;
+  artist: string;
+  fileName: string;
+  addedAt: number;
+  // Bytes stored for the set, audio included
+  size: number;
+  osuFiles: OszContents['osuFiles'];
+  backgrounds: OszContents['backgrounds'];
+  // Missing on sets stored before hitsounds were supported
+  samples?: OszContents['samples'];
+  // Nomod difficulty per .osu checksum, so restoring the library doesn't recalculate it
+  difficulty?: Record<string, DifficultyAttributes>;
+  // Calculator version the stored difficulty came from, older ones get recalculated
+  difficultyVersion?: number;
+}
+
+export interface StorageUsage {
+  library: number;
+  usage?: number;
+  quota?: number;
+}
+
+// Decoded songs per set, shared by all its difficulties
+const audioCache = new Map<string, Promise<AudioBuffer | undefined>>();
+// Songs of sets that couldn't be stored (IndexedDB unavailable), kept for this session
+const unsavedAudio = new Map<string, ArrayBuffer>();
+
+let difficultyWorker: Worker | null = null;
+let nextDifficultyJob = 0;
+
+/** Star ratings for the given maps, calculated in a worker, or on the main thread if workers aren't available. */
+const calculateDifficulties = async (maps: Beatmap[], mods: Mods = 0): Promise<DifficultyAttributes[]> => {
+  const inputs: DifficultyInput[] = maps.map(({ mode, objects, approachRate, overallDifficulty, circleSize, hpDrainRate }) => ({
+    mode, objects, approachRate, overallDifficulty, circleSize, hpDrainRate
+  }));
+  try {
+    if (!difficultyWorker) difficultyWorker = new Worker(new URL('./difficultyWorker.ts', import.meta.url), { type: 'module' });
+    const worker = difficultyWorker;
+    const id = nextDifficultyJob++;
+    return await new Promise<DifficultyAttributes[]>((resolve, reject) => {
+      const onMessage = (e: MessageEvent<{ id: number; attributes: DifficultyAttributes[] }>) => {
+        if (e.data.id !== id) return;
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        resolve(e.data.attributes);
+      };
+      const onError = (e: ErrorEvent) => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        reject(e);
+      };
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      worker.postMessage({ id, maps: inputs, mods });
+    });
+  } catch (e) {
+    console.warn('Difficulty worker unavailable, calculating on the main thread', e);
+    difficultyWorker = null;
+    return inputs.map(input => calculateDifficulty(input, mods));
+  }
+};
+
+/** Difficulty of a map with mods. The stored nomod attributes are reused when the mods don't change them. */
+export const calculateModdedDifficulty = async (map: Beatmap, mods: Mods): Promise<DifficultyAttributes> => {
+  if (map.difficultyAttributes && (mods & DIFFICULTY_MODS) === 0) return map.difficultyAttributes;
+  return (await calculateDifficulties([map], mods))[0];
+};
+
+// Bump when the stored attributes change meaning (2: max combo counts slider ticks, 3: co-op mania key counts,
+// 4: mania hold notes have an end time, 5: taiko drumrolls give no combo, 6: catch droplets give combo)
+const DIFFICULTY_VERSION = 6;
+
+const withDifficulty = (map: Beatmap, attributes?: DifficultyAttributes): Beatmap => attributes
+  ? { ...map, difficultyAttributes: attributes, difficultyValue: attributes.starRating }
+  : map;
+
+const toBeatmaps = (set: LibrarySet): Beatmap[] => createBeatmaps(set).map(map => withDifficulty(
+  { ...map, libraryId: set.id },
+  set.difficultyVersion === DIFFICULTY_VERSION ? set.difficulty?.[map.checksum!] : undefined
+));
+
+/** Imports an .osz into the library. Returns its beatmaps without audio, see loadSetAudio. */
+export const importOsz = async (file: File | Blob, fileName = (file as File).name || 'beatmap.osz'): Promise<Beatmap[]> => {
+  const contents = await extractOsz(file);
+  const parsed = createBeatmaps(contents);
+  if (parsed.length === 0) return [];
+  const attributes = await calculateDifficulties(parsed);
+  const beatmaps = parsed.map((map, i) => withDifficulty(map, attributes[i]));
+
+  // The same .osu files always give the same id, so importing a set again replaces it
+  const id = md5(beatmaps.map(m => m.checksum).sort().join(','));
+  const size = (contents.audio?.byteLength || 0)
+    + contents.osuFiles.reduce((sum, f) => sum + f.data.byteLength, 0)
+    + contents.backgrounds.reduce((sum, b) => sum + b.blob.size, 0)
+    + contents.samples.reduce((sum, s) => sum + s.data.byteLength, 0);
+  const set: LibrarySet = {
+    id,
+    title: beatmaps[0].title,
+    artist: beatmaps[0].artist,
+    fileName,
+    addedAt: Date.now(),
+    size,
+    osuFiles: contents.osuFiles,
+    backgrounds: contents.backgrounds,
+    samples: contents.samples,
+    difficulty: Object.fromEntries(beatmaps.map((map, i) => [map.checksum!, attributes[i]])),
+    difficultyVersion: DIFFICULTY_VERSION
+  };
+
+  audioCache.delete(id);
+  try {
+    await runTransaction([SET_STORE, AUDIO_STORE], 'readwrite', tx => {
+      tx.objectStore(SET_STORE).put(set);
+      if (contents.audio) tx.objectStore(AUDIO_STORE).put(contents.audio, id);
+    });
+    // Ask the browser not to evict the library under storage pressure
+    navigator.storage?.persist?.().catch(() => {});
+  } catch (e) {
+    console.warn('Could not store beatmap set, it will be gone after a reload', e);
+    if (contents.audio) unsavedAudio.set(id, contents.audio);
+  }
+
+  return beatmaps.map(map => ({ ...map, libraryId: id }));
+};
+
+export const getLibrarySets = async (): Promise<LibrarySet[]> => {
+  try {
+    const db = await openDatabase();
+    const sets = await toPromise(db.transaction(SET_STORE).objectStore(SET_STORE).getAll() as IDBRequest<LibrarySet[]>);
+    return sets.sort((a, b) => b.addedAt - a.addedAt);
+  } catch (e) {
+    console.warn('Could not read beatmap library', e);
+    return [];
+  }
+};
+
+// Sets stored before star ratings existed (or with outdated ones) get them calculated once and saved back
+const addMissingDifficulty = async (set: LibrarySet, maps: Beatmap[]): Promise<Beatmap[]> => {
+  const missing = maps.filter(map => !map.difficultyAttributes);
+  if (missing.length === 0) return maps;
+  const attributes = await calculateDifficulties(missing);
+  set.difficulty = set.difficultyVersion === DIFFICULTY_VERSION ? { ...set.difficulty } : {};
+  set.difficultyVersion = DIFFICULTY_VERSION;
+  missing.forEach((map, i) => { set.difficulty![map.checksum!] = attributes[i]; });
+  runTransaction([SET_STORE], 'readwrite', tx => { tx.objectStore(SET_STORE).put(set); })
+    .catch(e => console.warn('Could not store star ratings', e));
+  return maps.map(map => withDifficulty(map, set.difficulty![map.checksum!]));
+};
+
+/** Rebuilds every stored beatmap. Audio isn't touched, so this stays fast for big libraries. */
+export const loadLibraryBeatmaps = async (sets?: LibrarySet[]): Promise<Beatmap[]> => {
+  const stored = sets || await getLibrarySets();
+  const seen = new Set<string>();
+  const result: Beatmap[] = [];
+  for (const set of stored) {
+    try {
+      // The same .osu can ship in several archives, keep the first copy
+      const maps = toBeatmaps(set).filter(map => !seen.has(map.id) && !!seen.add(map.id));
+      result.push(...await addMissingDifficulty(set, maps));
+    } catch (e) {
+      console.warn('Skipping unreadable beatmap set', set.fileName, e);
+    }
+  }
+  return result;
+};
+
+/** Decodes the song of a library set once, later calls share the result. */
+export const loadSetAudio = (id: string, audioCtx: BaseAudioContext): Promise<AudioBuffer | undefined> => {
+  let pending = audioCache.get(id);
+  if (!pending) {
+    pending = (async () => {
+      let data = unsavedAudio.get(id);
+      if (!data) {
+        const db = await openDatabase();
+        data = await toPromise(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id) as IDBRequest<ArrayBuffer | undefined>);
+      }
+      // decodeAudioData detaches the buffer it is given
+      return data ? audioCtx.decodeAudioData(data.slice(0)) : undefined;
+    })();
+    audioCache.set(id, pending);
+    pending.catch(() => audioCache.delete(id));
+  }
+  return pending;
+};
+
+/** Makes sure a beatmap has its audio, decoding it from the library if needed. */
+export const withAudio = async (beatmap: Beatmap, audioCtx: BaseAudioContext): Promise<Beatmap> => {
+  if (beatmap.audioBuffer || !beatmap.libraryId) return beatmap;
+  return { ...beatmap, audioBuffer: await loadSetAudio(beatmap.libraryId, audioCtx) };
+};
+
+export const deleteLibrarySet = async (id: string) => {
+  audioCache.delete(id);
+  unsavedAudio.delete(id);
+  await runTransaction([SET_STORE, AUDIO_STORE], 'readwrite', tx => {
+    tx.objectStore(SET_STORE).delete(id);
+    tx.objectStore(AUDIO_STORE).delete(id);
+  });
+};
+
+export const clearLibrary = async () => {
+  audioCache.clear();
+  unsavedAudio.clear();
+  await runTransaction([SET_STORE, AUDIO_STORE], 'readwrite', tx => {
+    tx.objectStore(SET_STORE).clear();
+    tx.objectStore(AUDIO_STORE).clear();
+  });
+};
+
+/** Size of the stored library, plus the browser's overall estimate for this origin where available. */
+export const getStorageUsage = async (sets: LibrarySet[]): Promise<StorageUsage> => {
+  const library = sets.reduce((sum, set) => sum + set.size, 0);
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return { library, usage: estimate?.usage, quota: estimate?.quota };
+  } catch (e) {
+    return { library };
+  }
+};
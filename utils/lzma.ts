@@ -0,0 +1,336 @@
+// Minimal LZMA ("LZMA alone" / .lzma container) support for osu! replay frame data.
+// The decoder handles any stream osu! writes. The encoder only emits literals, which
+// compresses poorly but produces a valid stream every LZMA decoder (osu! included) accepts.
+
+const PROB_INIT = 1024;
+const NUM_STATES = 12;
+const POS_BITS_MAX = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const NUM_ALIGN_BITS = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1);
+const MATCH_MIN_LEN = 2;
+const TOP = 1 << 24;
+
+const createProbs = (size: number) => new Uint16Array(size).fill(PROB_INIT);
+
+// --- DECODER ---
+
+class RangeDecoder {
+  private range = 0xFFFFFFFF;
+  private code = 0;
+  private pos: number;
+
+  constructor(private data: Uint8Array, offset: number) {
+    this.pos = offset;
+    if (this.readByte() !== 0) throw new Error('Corrupted LZMA stream');
+    for (let i = 0; i < 4; i++) this.code = ((this.code << 8) | this.readByte()) >>> 0;
+  }
+
+  private readByte() {
+    return this.pos < this.data.length ? this.data[this.pos++] : 0;
+  }
+
+  private normalize() {
+    if (this.range < TOP) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.readByte()) >>> 0;
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number) {
+    const prob = probs[index];
+    const bound = (this.range >>> 11) * prob;
+    let bit: number;
+    if (this.code < bound) {
+      probs[index] = prob + ((2048 - prob) >> 5);
+      this.range = bound;
+      bit = 0;
+    } else {
+      probs[index] = prob - (prob >> 5);
+      this.code -= bound;
+      this.range -= bound;
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(numBits: number) {
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      this.range = this.range >>> 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = ((result << 1) | bit) >>> 0;
+      this.normalize();
+    }
+    return result;
+  }
+
+  bitTree(probs: Uint16Array, offset: number, numBits: number) {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) m = (m << 1) + this.decodeBit(probs, offset + m);
+    return m - (1 << numBits);
+  }
+
+  bitTreeReverse(probs: Uint16Array, offset: number, numBits: number) {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) + bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+}
+
+class LenDecoder {
+  private choice = createProbs(2);
+  private low = createProbs(8 << POS_BITS_MAX);
+  private mid = createProbs(8 << POS_BITS_MAX);
+  private high = createProbs(256);
+
+  decode(rc: RangeDecoder, posState: number) {
+    if (rc.decodeBit(this.choice, 0) === 0) return rc.bitTree(this.low, posState << 3, 3);
+    if (rc.decodeBit(this.choice, 1) === 0) return 8 + rc.bitTree(this.mid, posState << 3, 3);
+    return 16 + rc.bitTree(this.high, 0, 8);
+  }
+}
+
+class OutputWindow {
+  buffer: Uint8Array;
+  length = 0;
+
+  constructor(sizeHint: number) {
+    this.buffer = new Uint8Array(Math.max(256, sizeHint));
+  }
+
+  put(byte: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+
+  get(distance: number) {
+    return this.buffer[this.length - distance];
+  }
+}
+
+/** Decompresses a .lzma stream (13 byte header followed by range coded data). */
+export const lzmaDecompress = (data: Uint8Array): Uint8Array => {
+  if (data.length < 13) throw new Error('LZMA stream too short');
+
+  let props = data[0];
+  if (props >= 9 * 5 * 5) throw new Error('Invalid LZMA properties');
+  const lc = props % 9;
+  props = Math.floor(props / 9);
+  const lp = props % 5;
+  const pb = Math.floor(props / 5);
+  const dictSize = Math.max(1 << 12, (data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)) >>> 0);
+
+  // 64 bit size, all ones means "unknown, look for the end marker"
+  let unpackSize = 0;
+  let sizeKnown = false;
+  for (let i = 0; i < 8; i++) {
+    if (data[5 + i] !== 0xFF) sizeKnown = true;
+    unpackSize += data[5 + i] * Math.pow(2, 8 * i);
+  }
+
+  const rc = new RangeDecoder(data, 13);
+  const out = new OutputWindow(sizeKnown ? unpackSize : data.length * 4);
+
+  const literalProbs = createProbs(0x300 << (lc + lp));
+  const posSlot = createProbs(NUM_LEN_TO_POS_STATES << 6);
+  const posDecoders = createProbs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX);
+  const align = createProbs(1 << NUM_ALIGN_BITS);
+  const isMatch = createProbs(NUM_STATES << POS_BITS_MAX);
+  const isRep = createProbs(NUM_STATES);
+  const isRepG0 = createProbs(NUM_STATES);
+  const isRepG1 = createProbs(NUM_STATES);
+  const isRepG2 = createProbs(NUM_STATES);
+  const isRep0Long = createProbs(NUM_STATES << POS_BITS_MAX);
+  const lenDecoder = new LenDecoder();
+  const repLenDecoder = new LenDecoder();
+
+  const decodeLiteral = (state: number, rep0: number) => {
+    const prevByte = out.length > 0 ? out.get(1) : 0;
+    const litState = ((out.length & ((1 << lp) - 1)) << lc) + (prevByte >> (8 - lc));
+    const base = 0x300 * litState;
+    let symbol = 1;
+    if (state >= 7) {
+      let matchByte = out.get(rep0 + 1);
+      while (symbol < 0x100) {
+        const matchBit = (matchByte >> 7) & 1;
+        matchByte <<= 1;
+        const bit = rc.decodeBit(literalProbs, base + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      }
+    }
+    while (symbol < 0x100) symbol = (symbol << 1) | rc.decodeBit(literalProbs, base + symbol);
+    out.put(symbol - 0x100);
+  };
+
+  const decodeDistance = (len: number) => {
+    const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+    const slot = rc.bitTree(posSlot, lenState << 6, 6);
+    if (slot < 4) return slot;
+    const numDirectBits = (slot >> 1) - 1;
+    let dist = ((2 | (slot & 1)) << numDirectBits) >>> 0;
+    if (slot < END_POS_MODEL_INDEX) {
+      dist += rc.bitTreeReverse(posDecoders, dist - slot, numDirectBits);
+    } else {
+      dist += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS);
+      dist += rc.bitTreeReverse(align, 0, NUM_ALIGN_BITS);
+    }
+    return dist >>> 0;
+  };
+
+  let state = 0;
+  let rep0 = 0, rep1 = 0, rep2 = 0, rep3 = 0;
+
+  while (!sizeKnown || out.length < unpackSize) {
+    const posState = out.length & ((1 << pb) - 1);
+
+    if (rc.decodeBit(isMatch, (state << POS_BITS_MAX) + posState) === 0) {
+      decodeLiteral(state, rep0);
+      state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+      continue;
+    }
+
+    let len: number;
+    if (rc.decodeBit(isRep, state) !== 0) {
+      if (out.length === 0) throw new Error('Corrupted LZMA stream');
+      if (rc.decodeBit(isRepG0, state) === 0) {
+        if (rc.decodeBit(isRep0Long, (state << POS_BITS_MAX) + posState) === 0) {
+          // Short rep: a single byte from rep0
+          state = state < 7 ? 9 : 11;
+          out.put(out.get(rep0 + 1));
+          continue;
+        }
+      } else {
+        let dist: number;
+        if (rc.decodeBit(isRepG1, state) === 0) {
+          dist = rep1;
+        } else {
+          if (rc.decodeBit(isRepG2, state) === 0) {
+            dist = rep2;
+          } else {
+            dist = rep3;
+            rep3 = rep2;
+          }
+          rep2 = rep1;
+        }
+        rep1 = rep0;
+        rep0 = dist;
+      }
+      len = repLenDecoder.decode(rc, posState);
+      state = state < 7 ? 8 : 11;
+    } else {
+      rep3 = rep2;
+      rep2 = rep1;
+      rep1 = rep0;
+      len = lenDecoder.decode(rc, posState);
+      state = state < 7 ? 7 : 10;
+      rep0 = decodeDistance(len);
+      if (rep0 === 0xFFFFFFFF) break; // End marker
+      if (rep0 >= dictSize || rep0 >= out.length) throw new Error('Corrupted LZMA stream');
+    }
+
+    len += MATCH_MIN_LEN;
+    for (let i = 0; i < len && (!sizeKnown || out.length < unpackSize); i++) out.put(out.get(rep0 + 1));
+  }
+
+  return out.buffer.slice(0, out.length);
+};
+
+// --- ENCODER ---
+
+class RangeEncoder {
+  private low = 0; // Up to 33 bits, kept as a plain number
+  private range = 0xFFFFFFFF;
+  private cache = 0;
+  private cacheSize = 1;
+  bytes: number[] = [];
+
+  private shiftLow() {
+    if (this.low < 0xFF000000 || this.low >= 0x100000000) {
+      const carry = this.low >= 0x100000000 ? 1 : 0;
+      let temp = this.cache;
+      do {
+        this.bytes.push((temp + carry) & 0xFF);
+        temp = 0xFF;
+      } while (--this.cacheSize !== 0);
+      this.cache = Math.floor(this.low / 0x1000000) & 0xFF;
+    }
+    this.cacheSize++;
+    this.low = (this.low % 0x1000000) * 256;
+  }
+
+  encodeBit(probs: Uint16Array, index: number, bit: number) {
+    const prob = probs[index];
+    const bound = (this.range >>> 11) * prob;
+    if (bit === 0) {
+      this.range = bound;
+      probs[index] = prob + ((2048 - prob) >> 5);
+    } else {
+      this.low += bound;
+      this.range -= bound;
+      probs[index] = prob - (prob >> 5);
+    }
+    while (this.range < TOP) {
+      this.range = (this.range << 8) >>> 0;
+      this.shiftLow();
+    }
+  }
+
+  flush() {
+    for (let i = 0; i < 5; i++) this.shiftLow();
+  }
+}
+
+/** Compresses data into a .lzma stream (lc=3, lp=0, pb=2) with the size stored in the header. */
+export const lzmaCompress = (data: Uint8Array): Uint8Array => {
+  const lc = 3, lp = 0, pb = 2;
+  const dictSize = 1 << 21;
+  const rc = new RangeEncoder();
+  const isMatch = createProbs(NUM_STATES << POS_BITS_MAX);
+  const literalProbs = createProbs(0x300 << (lc + lp));
+
+  // With only literals the state machine never leaves state 0
+  for (let i = 0; i < data.length; i++) {
+    const posState = i & ((1 << pb) - 1);
+    rc.encodeBit(isMatch, posState, 0);
+    const prevByte = i > 0 ? data[i - 1] : 0;
+    const base = 0x300 * (prevByte >> (8 - lc));
+    let symbol = 1;
+    for (let b = 7; b >= 0; b--) {
+      const bit = (data[i] >> b) & 1;
+      rc.encodeBit(literalProbs, base + symbol, bit);
+      symbol = (symbol << 1) | bit;
+    }
+  }
+  rc.flush();
+
+  const header = new Uint8Array(13);
+  header[0] = (pb * 5 + lp) * 9 + lc;
+  for (let i = 0; i < 4; i++) header[1 + i] = (dictSize >>> (8 * i)) & 0xFF;
+  let size = data.length;
+  for (let i = 0; i < 8; i++) {
+    header[5 + i] = size % 256;
+    size = Math.floor(size / 256);
+  }
+
+  const out = new Uint8Array(13 + rc.bytes.length);
+  out.set(header);
+  out.set(rc.bytes, 13);
+  return out;
+};
@@ -0,0 +1,27 @@
+// osu!mania reads CircleSize as the key count. Above 10 keys a map is played on two stages
+// (co-op), each with half of the columns.
+
+export const MAX_STAGE_KEYS = 10;
+const MAX_KEYS = 18;
+
+export interface ManiaLayout {
+  // Columns over all stages
+  keys: number;
+  stages: number;
+  stageKeys: number;
+}
+
+/** Key count and stages for a beatmap's CircleSize. */
+export const getManiaLayout = (circleSize: number): ManiaLayout => {
+  const keys = Math.max(1, Math.min(MAX_KEYS, Math.round(circleSize)));
+  if (keys <= MAX_STAGE_KEYS) return { keys, stages: 1, stageKeys: keys };
+  const stageKeys = Math.floor(keys / 2);
+  return { keys: stageKeys * 2, stages: 2, stageKeys };
+};
+
+/** Every key count a beatmap can have, in the order the settings list them. */
+export const MANIA_KEY_COUNTS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 12, 14, 16, 18];
+
+/** The osu!mania column formula: x spans the 512px playfield evenly. */
+export const getManiaColumn = (x: number, keys: number) =>
+  Math.max(0, Math.min(keys - 1, Math.floor(x * keys / 512)));
@@ -0,0 +1,126 @@
+import { Beatmap, GameMode, HitObject, HitObjectType, HitResult, Mod, Mods } from '../types';
+
+export interface ModInfo {
+  mod: Mod;
+  acronym: string;
+  name: string;
+  multiplier: number;
+  // Mods that get switched off when this one is enabled
+  incompatible: Mod[];
+  // Mods that are always enabled together with this one (NC is DT, PF is SD)
+  implies?: Mod[];
+  // Set by the game rather than in mod select (TD)
+  automatic?: boolean;
+}
+
+export const MOD_LIST: ModInfo[] = [
+  { mod: Mod.Easy, acronym: 'EZ', name: 'Easy', multiplier: 0.5, incompatible: [Mod.HardRock] },
+  { mod: Mod.NoFail, acronym: 'NF', name: 'No Fail', multiplier: 0.5, incompatible: [Mod.SuddenDeath, Mod.Perfect, Mod.Relax, Mod.Autoplay] },
+  { mod: Mod.HalfTime, acronym: 'HT', name: 'Half Time', multiplier: 0.3, incompatible: [Mod.DoubleTime, Mod.Nightcore] },
+  { mod: Mod.HardRock, acronym: 'HR', name: 'Hard Rock', multiplier: 1.06, incompatible: [Mod.Easy] },
+  { mod: Mod.SuddenDeath, acronym: 'SD', name: 'Sudden Death', multiplier: 1, incompatible: [Mod.NoFail, Mod.Relax, Mod.Autoplay] },
+  { mod: Mod.Perfect, acronym: 'PF', name: 'Perfect', multiplier: 1, incompatible: [Mod.NoFail, Mod.Relax, Mod.Autoplay], implies: [Mod.SuddenDeath] },
+  { mod: Mod.DoubleTime, acronym: 'DT', name: 'Double Time', multiplier: 1.12, incompatible: [Mod.HalfTime] },
+  { mod: Mod.Nightcore, acronym: 'NC', name: 'Nightcore', multiplier: 1.12, incompatible: [Mod.HalfTime], implies: [Mod.DoubleTime] },
+  { mod: Mod.Hidden, acronym: 'HD', name: 'Hidden', multiplier: 1.06, incompatible: [] },
+  { mod: Mod.Flashlight, acronym: 'FL', name: 'Flashlight', multiplier: 1.12, incompatible: [] },
+  { mod: Mod.Relax, acronym: 'RX', name: 'Relax', multiplier: 0, incompatible: [Mod.Autoplay, Mod.NoFail, Mod.SuddenDeath, Mod.Perfect] },
+  { mod: Mod.Autoplay, acronym: 'AT', name: 'Auto', multiplier: 1, incompatible: [Mod.Relax, Mod.NoFail, Mod.SuddenDeath, Mod.Perfect] },
+  { mod: Mod.TouchDevice, acronym: 'TD', name: 'Touch Device', multiplier: 1, incompatible: [], automatic: true }
+];
+
+export const hasMod = (mods: Mods, mod: Mod) => (mods & mod) !== 0;
+
+/** Mods that change the star rating, with none of them a play has the map's nomod difficulty. */
+export const DIFFICULTY_MODS = Mod.DoubleTime | Mod.Nightcore | Mod.HalfTime | Mod.HardRock | Mod.Easy;
+
+/** Toggles a mod, switching off incompatible ones and keeping implied mods in sync. */
+export const toggleMod = (mods: Mods, mod: Mod): Mods => {
+  const info = MOD_LIST.find(m => m.mod === mod);
+  if (!info) return mods;
+
+  if (hasMod(mods, mod)) {
+    let next = mods & ~mod;
+    // Turning off DT also turns off NC, turning off SD also turns off PF
+    MOD_LIST.forEach(m => {
+      if (m.implies?.includes(mod)) next &= ~m.mod;
+    });
+    info.implies?.forEach(implied => { next &= ~implied; });
+    return next;
+  }
+
+  let next = mods | mod;
+  info.incompatible.forEach(other => { next &= ~other; });
+  info.implies?.forEach(implied => {
+    next |= implied;
+    MOD_LIST.find(m => m.mod === implied)?.incompatible.forEach(other => { next &= ~other; });
+  });
+  return next;
+};
+
+export const getModAcronyms = (mods: Mods) => {
+  // NC and PF hide the DT and SD they imply
+  return MOD_LIST
+    .filter(m => hasMod(mods, m.mod))
+    .filter(m => !MOD_LIST.some(o => hasMod(mods, o.mod) && o.implies?.includes(m.mod)))
+    .map(m => m.acronym);
+};
+
+export const getModMultiplier = (mods: Mods) => {
+  return MOD_LIST.reduce((mult, m) => {
+    if (!hasMod(mods, m.mod)) return mult;
+    // NC's multiplier already covers the DT it implies
+    if (m.mod === Mod.DoubleTime && hasMod(mods, Mod.Nightcore)) return mult;
+    return mult * m.multiplier;
+  }, 1);
+};
+
+/** How fast the song (and therefore gameplay) runs. */
+export const getSpeedMultiplier = (mods: Mods) => {
+  if (hasMod(mods, Mod.DoubleTime) || hasMod(mods, Mod.Nightcore)) return 1.5;
+  if (hasMod(mods, Mod.HalfTime)) return 0.75;
+  return 1;
+};
+
+/** Applies HR/EZ to AR, CS, OD and HP. Rate changes are handled by running the clock faster. */
+export const applyModsToBeatmap = (beatmap: Beatmap, mods: Mods): Beatmap => {
+  let scale = 1;
+  if (hasMod(mods, Mod.HardRock)) scale = 1.4;
+  else if (hasMod(mods, Mod.Easy)) scale = 0.5;
+  if (scale === 1) return beatmap;
+
+  const adjust = (value: number, factor: number) => Math.min(10, value * factor);
+  // Mania uses CS as the key count (up to 18), so it must stay untouched
+  const circleSize = beatmap.mode === GameMode.MANIA ? beatmap.circleSize : adjust(beatmap.circleSize, scale > 1 ? 1.3 : 0.5);
+  return {
+    ...beatmap,
+    approachRate: adjust(beatmap.approachRate, scale),
+    circleSize,
+    overallDifficulty: adjust(beatmap.overallDifficulty, scale),
+    hpDrainRate: adjust(beatmap.hpDrainRate, scale)
+  };
+};
+
+/** HR mirrors the standard playfield vertically. Mutates and returns the given object copies. */
+export const applyModsToObjects = (objects: HitObject[], mode: GameMode, mods: Mods): HitObject[] => {
+  if (mode !== GameMode.STANDARD || !hasMod(mods, Mod.HardRock)) return objects;
+  const flip = (y: number) => 384 - y;
+  objects.forEach(obj => {
+    if (obj.type === HitObjectType.SPINNER) return;
+    obj.y = flip(obj.y);
+    obj.sliderPoints?.forEach(p => { p.y = flip(p.y); });
+    obj.sliderPath?.points.forEach(p => { p.y = flip(p.y); });
+  });
+  return objects;
+};
+
+/** SD fails on any combo break, PF on anything less than a perfect judgement. */
+export const isFailingJudgement = (mods: Mods, mode: GameMode, result: HitResult) => {
+  if (hasMod(mods, Mod.Perfect)) {
+    // Catching a drop is always perfect in catch, only misses count
+    if (mode === GameMode.CATCH) return result === 'miss' || result === 'tinyDropletMiss';
+    return result !== 'MAX' && result !== '300' && result !== 'bonus' && result !== 'sliderTick';
+  }
+  if (hasMod(mods, Mod.SuddenDeath)) return result === 'miss' || result === 'sliderTickMiss';
+  return false;
+};
@@ -0,0 +1,185 @@
+import { Beatmap, DifficultyAttributes, GameMode, Mod, PerformanceAttributes, ScoreData } from '../types';
+import { hasMod } from './mods';
+import { calculateAccuracy } from './scoring';
+
+// Performance points, following the osu! pp formulas for each mode. Every mode turns the difficulty
+// attributes into a few parts (aim, speed, accuracy, ...) that get scaled by how well the play went.
+
+const emptyPerformance = (): PerformanceAttributes => ({ total: 0, aim: 0, speed: 0, accuracy: 0, flashlight: 0, difficulty: 0 });
+
+const getMissPenalty = (missCount: number, totalHits: number, exponent = 1) =>
+  0.97 * Math.pow(1 - Math.pow(missCount / totalHits, 0.775), Math.pow(missCount, exponent));
+
+const getComboScaling = (scoreCombo: number, maxCombo: number) =>
+  maxCombo > 0 ? Math.min(Math.pow(scoreCombo, 0.8) / Math.pow(maxCombo, 0.8), 1) : 1;
+
+const getStandardPerformance = (attributes: DifficultyAttributes, score: ScoreData): PerformanceAttributes => {
+  const { count300, count100, count50, countMiss, mods } = score;
+  const totalHits = count300 + count100 + count50 + countMiss;
+  if (totalHits === 0) return emptyPerformance();
+  const accuracy = score.accuracy / 100;
+  const ar = attributes.approachRate;
+  const od = attributes.overallDifficulty;
+
+  // Dropped slider ends break combo without a miss, so estimate the misses from the combo
+  let effectiveMissCount = countMiss;
+  if (attributes.sliderCount > 0) {
+    const fullComboThreshold = attributes.maxCombo - 0.1 * attributes.sliderCount;
+    if (score.maxCombo < fullComboThreshold) {
+      effectiveMissCount = Math.max(countMiss, Math.min(fullComboThreshold / Math.max(1, score.maxCombo), count100 + count50 + countMiss));
+    }
+  }
+
+  let multiplier = 1.14;
+  if (hasMod(mods, Mod.NoFail)) multiplier *= Math.max(0.9, 1 - 0.02 * effectiveMissCount);
+
+  const lengthBonus = 0.95 + 0.4 * Math.min(1, totalHits / 2000) + (totalHits > 2000 ? Math.log10(totalHits / 2000) * 0.5 : 0);
+  const comboScaling = getComboScaling(score.maxCombo, attributes.maxCombo);
+  const skillValue = (rating: number) => Math.pow(5 * Math.max(1, rating / 0.0675) - 4, 3) / 100000;
+
+  // Tapping straight onto the circles makes aiming a lot easier
+  const aimRating = hasMod(mods, Mod.TouchDevice) ? Math.pow(attributes.aimRating, 0.8) : attributes.aimRating;
+  let aim = skillValue(aimRating) * lengthBonus * comboScaling;
+  if (effectiveMissCount > 0) aim *= getMissPenalty(effectiveMissCount, totalHits);
+  let arFactor = 0;
+  if (ar > 10.33) arFactor = 0.3 * (ar - 10.33);
+  else if (ar < 8) arFactor = 0.05 * (8 - ar);
+  aim *= 1 + arFactor * lengthBonus;
+  if (hasMod(mods, Mod.Hidden)) aim *= 1 + 0.04 * (12 - ar);
+  aim *= accuracy * (0.98 + od * od / 2500);
+
+  let speed = skillValue(attributes.speedRating) * lengthBonus * comboScaling;
+  if (effectiveMissCount > 0) speed *= getMissPenalty(effectiveMissCount, totalHits, 0.875);
+  speed *= 1 + (ar > 10.33 ? 0.3 * (ar - 10.33) : 0) * lengthBonus;
+  if (hasMod(mods, Mod.Hidden)) speed *= 1 + 0.04 * (12 - ar);
+  speed *= (0.95 + od * od / 750) * Math.pow(accuracy, (14.5 - Math.max(od, 8)) / 2);
+  // Mashing through streams shows up as 50s
+  if (count50 >= totalHits / 500) speed *= Math.pow(0.99, count50 - totalHits / 500);
+
+  // Accuracy only counts on circles, sliders are too lenient to tell anything
+  const circles = attributes.hitCircleCount;
+  let betterAccuracy = circles > 0
+    ? ((count300 - (totalHits - circles)) * 6 + count100 * 2 + count50) / (circles * 6)
+    : 0;
+  betterAccuracy = Math.max(0, betterAccuracy);
+  let accuracyValue = Math.pow(1.52163, od) * Math.pow(betterAccuracy, 24) * 2.83;
+  accuracyValue *= Math.min(1.15, Math.pow(circles / 1000, 0.3));
+  if (hasMod(mods, Mod.Hidden)) accuracyValue *= 1.08;
+  if (hasMod(mods, Mod.Flashlight)) accuracyValue *= 1.02;
+
+  let flashlight = 0;
+  if (hasMod(mods, Mod.Flashlight)) {
+    flashlight = Math.pow(attributes.flashlightRating, 2) * 25 * comboScaling;
+    if (effectiveMissCount > 0) flashlight *= getMissPenalty(effectiveMissCount, totalHits, 0.875);
+    flashlight *= 0.7 + 0.1 * Math.min(1, totalHits / 200) + (totalHits > 200 ? 0.2 * Math.min(1, (totalHits - 200) / 200) : 0);
+    flashlight *= (0.5 + accuracy / 2) * (0.98 + od * od / 2500);
+  }
+
+  const total = Math.pow(
+    Math.pow(aim, 1.1) + Math.pow(speed, 1.1) + Math.pow(accuracyValue, 1.1) + Math.pow(flashlight, 1.1),
+    1 / 1.1
+  ) * multiplier;
+  return { total, aim, speed, accuracy: accuracyValue, flashlight, difficulty: 0 };
+};
+
+const getTaikoPerformance = (attributes: DifficultyAttributes, score: ScoreData): PerformanceAttributes => {
+  const { count300, count100, countMiss, mods } = score;
+  const totalHits = count300 + count100 + countMiss;
+  if (totalHits === 0) return emptyPerformance();
+  const accuracy = score.accuracy / 100;
+
+  let multiplier = 1.13;
+  if (hasMod(mods, Mod.Hidden)) multiplier *= 1.075;
+  if (hasMod(mods, Mod.Easy)) multiplier *= 0.975;
+  if (hasMod(mods, Mod.NoFail)) multiplier *= 0.9;
+
+  const lengthBonus = 1 + 0.1 * Math.min(1, totalHits / 1500);
+  let difficulty = Math.pow(5 * Math.max(1, attributes.starRating / 0.115) - 4, 2.25) / 1150;
+  difficulty *= lengthBonus * Math.pow(0.986, countMiss);
+  if (hasMod(mods, Mod.Easy)) difficulty *= 0.985;
+  if (hasMod(mods, Mod.Hidden)) difficulty *= 1.025;
+  if (hasMod(mods, Mod.Flashlight)) difficulty *= 1.05 * lengthBonus;
+  difficulty *= accuracy * accuracy;
+
+  let accuracyValue = 0;
+  if (attributes.greatHitWindow > 0) {
+    accuracyValue = Math.pow(150 / attributes.greatHitWindow, 1.1) * Math.pow(accuracy, 15) * 22;
+    accuracyValue *= Math.min(1.15, Math.pow(totalHits / 1500, 0.3));
+    if (hasMod(mods, Mod.Hidden) && hasMod(mods, Mod.Flashlight)) accuracyValue *= 1.1;
+  }
+
+  const total = Math.pow(Math.pow(difficulty, 1.1) + Math.pow(accuracyValue, 1.1), 1 / 1.1) * multiplier;
+  return { ...emptyPerformance(), total, difficulty, accuracy: accuracyValue };
+};
+
+const getCatchPerformance = (attributes: DifficultyAttributes, score: ScoreData): PerformanceAttributes => {
+  const { countMiss, mods } = score;
+  const ar = attributes.approachRate;
+  const comboHits = attributes.maxCombo;
+
+  let value = Math.pow(5 * Math.max(1, attributes.starRating / 0.0049) - 4, 2) / 100000;
+  const lengthBonus = 0.95 + 0.3 * Math.min(1, comboHits / 2500) + (comboHits > 2500 ? Math.log10(comboHits / 2500) * 0.475 : 0);
+  value *= lengthBonus * Math.pow(0.97, countMiss) * getComboScaling(score.maxCombo, attributes.maxCombo);
+
+  let arFactor = 1;
+  if (ar > 9) arFactor += 0.1 * (ar - 9);
+  if (ar > 10) arFactor += 0.1 * (ar - 10);
+  else if (ar < 8) arFactor += 0.025 * (8 - ar);
+  value *= arFactor;
+
+  if (hasMod(mods, Mod.Hidden)) value *= ar <= 10 ? 1.05 + 0.075 * (10 - ar) : 1.01 + 0.04 * (11 - Math.min(11, ar));
+  if (hasMod(mods, Mod.Flashlight)) value *= 1.35 * lengthBonus;
+  value *= Math.pow(score.accuracy / 100, 5.5);
+  if (hasMod(mods, Mod.NoFail)) value *= 0.9;
+
+  return { ...emptyPerformance(), total: value, difficulty: value };
+};
+
+const getManiaPerformance = (attributes: DifficultyAttributes, score: ScoreData): PerformanceAttributes => {
+  const { countGeki, count300, countKatu, count100, count50, countMiss, mods } = score;
+  const totalHits = countGeki + count300 + countKatu + count100 + count50 + countMiss;
+  if (totalHits === 0) return emptyPerformance();
+
+  let multiplier = 8;
+  if (hasMod(mods, Mod.NoFail)) multiplier *= 0.75;
+  if (hasMod(mods, Mod.Easy)) multiplier *= 0.5;
+
+  // Unlike the displayed accuracy, MAX counts for more than 300 here
+  const customAccuracy = (countGeki * 320 + count300 * 300 + countKatu * 200 + count100 * 100 + count50 * 50) / (totalHits * 320);
+  const difficulty = Math.pow(Math.max(attributes.starRating - 0.15, 0.05), 2.2)
+    * Math.max(0, 5 * customAccuracy - 4)
+    * (1 + 0.1 * Math.min(1, totalHits / 1500));
+
+  return { ...emptyPerformance(), total: difficulty * multiplier, difficulty };
+};
+
+/** pp of a play, given difficulty attributes calculated with the play's mods. */
+export const calculatePerformance = (attributes: DifficultyAttributes, score: ScoreData, mode: GameMode): PerformanceAttributes => {
+  switch (mode) {
+    case GameMode.TAIKO: return getTaikoPerformance(attributes, score);
+    case GameMode.CATCH: return getCatchPerformance(attributes, score);
+    case GameMode.MANIA: return getManiaPerformance(attributes, score);
+    default: return getStandardPerformance(attributes, score);
+  }
+};
+
+/** The same play with every miss turned into a 300 and a full combo. */
+export const getFullComboScore = (score: ScoreData, attributes: DifficultyAttributes, mode: GameMode): ScoreData => {
+  const fc: ScoreData = {
+    ...score,
+    count300: score.count300 + score.countMiss,
+    countMiss: 0,
+    maxCombo: attributes.maxCombo
+  };
+  fc.accuracy = calculateAccuracy(fc, mode);
+  return fc;
+};
+
+/** pp and if-FC pp of a finished play on a beatmap, given the difficulty with the play's mods. */
+export const getPlayPerformance = (beatmap: Beatmap, score: ScoreData, attributes: DifficultyAttributes) => {
+  return {
+    attributes,
+    performance: calculatePerformance(attributes, score, beatmap.mode),
+    fullCombo: calculatePerformance(attributes, getFullComboScore(score, attributes, beatmap.mode), beatmap.mode)
+  };
+};
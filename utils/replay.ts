@@ -0,0 +1,222 @@
+import { Beatmap, GameMode, Replay, ReplayFrame, ScoreData } from '../types';
+import { lzmaCompress, lzmaDecompress } from './lzma';
+import { md5 } from './md5';
+import { getModMultiplier } from './mods';
+import { calculateAccuracy, createEmptyScore } from './scoring';
+
+// Version written into exported replays, osu! only uses it to pick parsing quirks
+const OSR_GAME_VERSION = 20240101;
+// .NET ticks (100ns since 0001-01-01) at the Unix epoch
+const TICKS_AT_UNIX_EPOCH = 621355968000000000n;
+// osu! appends a frame with this time delta that stores the RNG seed instead of input
+const SEED_FRAME_DELTA = -12345;
+
+class OsrWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xFF);
+  }
+
+  short(value: number) {
+    for (let i = 0; i < 2; i++) this.byte(value >> (8 * i));
+  }
+
+  int(value: number) {
+    for (let i = 0; i < 4; i++) this.byte(value >> (8 * i));
+  }
+
+  long(value: bigint) {
+    for (let i = 0n; i < 8n; i++) this.byte(Number((value >> (8n * i)) & 0xFFn));
+  }
+
+  // 0x00 for an empty string, otherwise 0x0b, ULEB128 length and UTF-8 bytes
+  string(value: string) {
+    if (!value) {
+      this.byte(0x00);
+      return;
+    }
+    const encoded = new TextEncoder().encode(value);
+    this.byte(0x0B);
+    let length = encoded.length;
+    do {
+      let b = length & 0x7F;
+      length >>>= 7;
+      if (length !== 0) b |= 0x80;
+      this.byte(b);
+    } while (length !== 0);
+    this.raw(encoded);
+  }
+
+  raw(data: Uint8Array) {
+    for (let i = 0; i < data.length; i++) this.bytes.push(data[i]);
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class OsrReader {
+  private view: DataView;
+  private pos = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private ensure(length: number) {
+    if (this.pos + length > this.data.length) throw new Error('Unexpected end of replay file');
+  }
+
+  byte() {
+    this.ensure(1);
+    return this.data[this.pos++];
+  }
+
+  short() {
+    this.ensure(2);
+    const value = this.view.getUint16(this.pos, true);
+    this.pos += 2;
+    return value;
+  }
+
+  int() {
+    this.ensure(4);
+    const value = this.view.getInt32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  long() {
+    this.ensure(8);
+    const value = this.view.getBigInt64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  string() {
+    const marker = this.byte();
+    if (marker === 0x00) return '';
+    if (marker !== 0x0B) throw new Error('Invalid string in replay file');
+    let length = 0;
+    let shift = 0;
+    let b: number;
+    do {
+      b = this.byte();
+      length |= (b & 0x7F) << shift;
+      shift += 7;
+    } while (b & 0x80);
+    return new TextDecoder().decode(this.raw(length));
+  }
+
+  raw(length: number) {
+    this.ensure(length);
+    const slice = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return slice;
+  }
+}
+
+/** Packs a finished play into a replay. */
+export const createReplay = (beatmap: Beatmap, score: ScoreData, frames: ReplayFrame[], playerName: string): Replay => ({
+  mode: beatmap.mode,
+  gameVersion: OSR_GAME_VERSION,
+  beatmapHash: beatmap.checksum || '',
+  playerName,
+  score,
+  timestamp: Date.now(),
+  frames
+});
+
+// Frames are stored as "delta|x|y|keys" separated by commas, with integer ms deltas
+const serializeFrames = (frames: ReplayFrame[]) => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  let lastTime = 0;
+  const parts = frames.map(frame => {
+    const time = Math.round(frame.time);
+    const part = `${time - lastTime}|${round(frame.x)}|${round(frame.y)}|${frame.keys}`;
+    lastTime = time;
+    return part;
+  });
+  parts.push(`${SEED_FRAME_DELTA}|0|0|0`);
+  return parts.join(',') + ',';
+};
+
+const parseFrames = (text: string): ReplayFrame[] => {
+  const frames: ReplayFrame[] = [];
+  let time = 0;
+  text.split(',').forEach(part => {
+    const [delta, x, y, keys] = part.split('|');
+    if (keys === undefined) return;
+    const w = parseInt(delta);
+    if (w === SEED_FRAME_DELTA) return;
+    time += w;
+    frames.push({ time, x: parseFloat(x), y: parseFloat(y), keys: parseInt(keys) || 0 });
+  });
+  return frames;
+};
+
+/** Encodes a replay in the osu! .osr format. */
+export const encodeOsr = (replay: Replay) => {
+  const { score } = replay;
+  const w = new OsrWriter();
+  w.byte(replay.mode);
+  w.int(replay.gameVersion);
+  w.string(replay.beatmapHash);
+  w.string(replay.playerName);
+  w.string(md5(`${score.maxCombo}osu${replay.playerName}${replay.beatmapHash}${score.totalScore}${replay.timestamp}`));
+  w.short(score.count300);
+  w.short(score.count100);
+  w.short(score.count50);
+  w.short(score.countGeki);
+  w.short(score.countKatu);
+  w.short(score.countMiss);
+  w.int(score.totalScore);
+  w.short(score.maxCombo);
+  w.byte(score.countMiss === 0 ? 1 : 0);
+  w.int(score.mods);
+  w.string(''); // Life bar graph
+  w.long(BigInt(Math.round(replay.timestamp)) * 10000n + TICKS_AT_UNIX_EPOCH);
+
+  const compressed = lzmaCompress(new TextEncoder().encode(serializeFrames(replay.frames)));
+  w.int(compressed.length);
+  w.raw(compressed);
+  w.long(0n); // Online score id
+  return w.toUint8Array();
+};
+
+/** Decodes an osu! .osr file. */
+export const decodeOsr = (data: Uint8Array): Replay => {
+  const r = new OsrReader(data);
+  const mode = r.byte() as GameMode;
+  if (!(mode in GameMode)) throw new Error('Unknown game mode in replay file');
+  const gameVersion = r.int();
+  const beatmapHash = r.string();
+  const playerName = r.string();
+  r.string(); // Replay hash
+
+  const score = createEmptyScore();
+  score.count300 = r.short();
+  score.count100 = r.short();
+  score.count50 = r.short();
+  score.countGeki = r.short();
+  score.countKatu = r.short();
+  score.countMiss = r.short();
+  score.totalScore = r.int();
+  score.maxCombo = r.short();
+  r.byte(); // Perfect combo flag
+  score.mods = r.int();
+  score.modMultiplier = getModMultiplier(score.mods);
+  score.accuracy = calculateAccuracy(score, mode);
+  r.string(); // Life bar graph
+  const ticks = r.long();
+  const timestamp = Number((ticks - TICKS_AT_UNIX_EPOCH) / 10000n);
+
+  const compressedLength = r.int();
+  const frames = compressedLength > 0
+    ? parseFrames(new TextDecoder().decode(lzmaDecompress(r.raw(compressedLength))))
+    : [];
+
+  return { mode, gameVersion, beatmapHash, playerName, score, timestamp, frames };
+};
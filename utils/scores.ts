@@ -0,0 +1,53 @@
+import { Beatmap, ScoreData, ScoreRecord, ScoringVersion } from '../types';
+import { SCORE_STORE, openDatabase, runTransaction, toPromise } from './db';
+import { getGrade } from './scoring';
+
+export const LEADERBOARD_SIZE = 50;
+
+// Maps without a checksum (the built-in sample) fall back to their id
+export const getScoreKey = (beatmap: Beatmap) => beatmap.checksum || beatmap.id;
+
+export const createScoreRecord = (
+  beatmap: Beatmap,
+  score: ScoreData,
+  playerName: string,
+  scoreVersion: ScoringVersion,
+  performance?: { pp: number; fullComboPp: number }
+): ScoreRecord => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`,
+  beatmapHash: getScoreKey(beatmap),
+  mode: beatmap.mode,
+  playerName,
+  timestamp: Date.now(),
+  grade: getGrade(score, beatmap.mode),
+  scoreVersion,
+  score,
+  ...performance
+});
+
+export const saveScore = async (record: ScoreRecord) => {
+  await runTransaction([SCORE_STORE], 'readwrite', tx => {
+    tx.objectStore(SCORE_STORE).put(record);
+  });
+};
+
+/** Every stored score on a difficulty, best first. */
+export const getBeatmapScores = async (beatmapHash: string): Promise<ScoreRecord[]> => {
+  try {
+    const db = await openDatabase();
+    const index = db.transaction(SCORE_STORE).objectStore(SCORE_STORE).index('beatmapHash');
+    const scores = await toPromise(index.getAll(beatmapHash) as IDBRequest<ScoreRecord[]>);
+    // Ties go to whoever set the score first
+    return scores.sort((a, b) => b.score.totalScore - a.score.totalScore || a.timestamp - b.timestamp);
+  } catch (e) {
+    console.warn('Could not read scores', e);
+    return [];
+  }
+};
+
+// ScoreV1 and ScoreV2 totals can't be compared, so boards only show the current one
+export const getLeaderboard = (scores: ScoreRecord[], version: ScoringVersion) =>
+  scores.filter(s => s.scoreVersion === version).slice(0, LEADERBOARD_SIZE);
+
+export const getPersonalBest = (scores: ScoreRecord[], playerName: string, version: ScoringVersion) =>
+  scores.find(s => s.scoreVersion === version && s.playerName === playerName) || null;
@@ -0,0 +1,286 @@
+import { Beatmap, GameMode, Grade, HitObjectType, HitResult, Mod, ScoreData, ScoringVersion } from '../types';
+import { getJuiceStreamParts } from './catch';
+import { getSliderEvents } from './sliderPath';
+
+const MANIA_MAX_SCORE = 1000000;
+const SCORE_V2_MAX = 1000000;
+const SCORE_V2_COMBO_PORTION = 0.7;
+const SCORE_V2_ACCURACY_PORTION = 0.3;
+
+export interface ScoringContext {
+  mode: GameMode;
+  version: ScoringVersion;
+  difficultyMultiplier: number;
+  modMultiplier: number;
+  // Number of judgements that count towards accuracy in a full play
+  totalJudgements: number;
+  maxCombo: number;
+  // Combo portion of a perfect play, used to normalise ScoreV2
+  maxComboPortion: number;
+}
+
+export interface ScoringState {
+  score: ScoreData;
+  comboPortion: number;
+  bonusScore: number;
+  // osu!mania ScoreV1 keeps a 0..100 bonus meter that rewards consecutive MAX/300s
+  maniaBonus: number;
+}
+
+export const createEmptyScore = (): ScoreData => ({
+  totalScore: 0, combo: 0, maxCombo: 0, accuracy: 100,
+  countGeki: 0, countKatu: 0,
+  count300: 0, count100: 0, count50: 0, countMiss: 0,
+  passed: true,
+  mods: 0,
+  modMultiplier: 1
+});
+
+export const createScoringState = (): ScoringState => ({
+  score: createEmptyScore(),
+  comboPortion: 0,
+  bonusScore: 0,
+  maniaBonus: 100
+});
+
+/** ScoreV1 difficulty multiplier from HP, CS, OD and object density (0..6). */
+export const getDifficultyMultiplier = (beatmap: Beatmap) => {
+  const objects = beatmap.objects;
+  if (objects.length === 0) return 0;
+  const drainSeconds = Math.max(1, (objects[objects.length - 1].endTime - objects[0].time) / 1000);
+  const density = Math.max(0, Math.min(16, objects.length / drainSeconds * 8));
+  return Math.round((beatmap.hpDrainRate + beatmap.circleSize + beatmap.overallDifficulty + density) / 38 * 5);
+};
+
+// Points a judgement is worth before combo scaling
+export const getScoreValue = (mode: GameMode, result: HitResult) => {
+  switch (result) {
+    case 'MAX': return 320;
+    case '300': return 300;
+    case '200': return 200;
+    case '100': return mode === GameMode.TAIKO ? 150 : 100;
+    case '50': return mode === GameMode.CATCH ? 10 : 50;
+    case 'bonus': return mode === GameMode.CATCH ? 1100 : 300;
+    case 'sliderTick': return 10;
+    default: return 0;
+  }
+};
+
+const breaksCombo = (result: HitResult) => result === 'miss' || result === 'sliderTickMiss';
+
+// Whether a judgement builds (or breaks) combo
+const affectsCombo = (mode: GameMode, result: HitResult) => {
+  if (result === 'bonus' || result === 'tinyDropletMiss') return false;
+  // Tiny droplets are worth accuracy but never combo
+  if (mode === GameMode.CATCH && result === '50') return false;
+  return true;
+};
+
+// Combo building judgements of a perfect play, in time order
+const getPerfectComboResults = (beatmap: Pick<Beatmap, 'mode' | 'objects'>): HitResult[] => {
+  const perfect: HitResult = beatmap.mode === GameMode.MANIA ? 'MAX' : '300';
+  const results: { time: number; result: HitResult }[] = [];
+  beatmap.objects.forEach(obj => {
+    if (obj.type === HitObjectType.SLIDER && beatmap.mode === GameMode.STANDARD) {
+      // Head, ticks and repeats as slider ticks, the final judgement comes with the tail
+      results.push({ time: obj.time, result: 'sliderTick' });
+      getSliderEvents(obj).forEach(event => results.push({ time: event.time, result: event.type === 'tail' ? perfect : 'sliderTick' }));
+    } else if (obj.type === HitObjectType.SLIDER && beatmap.mode === GameMode.CATCH) {
+      // Fruits and droplets give combo, tiny droplets only accuracy
+      getJuiceStreamParts(obj).forEach(part => {
+        if (part.kind !== 'tinyDroplet') results.push({ time: part.time, result: part.kind === 'fruit' ? perfect : '100' });
+      });
+    } else if (obj.type === HitObjectType.SPINNER && beatmap.mode !== GameMode.STANDARD) {
+      // Swells and banana showers only give bonus
+    } else if (obj.type === HitObjectType.SLIDER && beatmap.mode === GameMode.TAIKO) {
+      // So do drumrolls
+    } else {
+      results.push({ time: obj.endTime, result: perfect });
+    }
+  });
+  return results.sort((a, b) => a.time - b.time).map(r => r.result);
+};
+
+// Judgements that count towards accuracy in a full play
+const getTotalJudgements = (beatmap: Beatmap) => {
+  switch (beatmap.mode) {
+    // Taiko only judges its notes, drumrolls and swells are all bonus
+    case GameMode.TAIKO: return beatmap.objects.filter(obj => obj.type === HitObjectType.CIRCLE).length;
+    // Every fruit and droplet of a juice stream is judged, banana showers aren't
+    case GameMode.CATCH: return beatmap.objects.reduce((sum, obj) => {
+      if (obj.type === HitObjectType.SPINNER) return sum;
+      return sum + (obj.type === HitObjectType.SLIDER ? getJuiceStreamParts(obj).length : 1);
+    }, 0);
+    default: return beatmap.objects.length;
+  }
+};
+
+/** Highest combo a full combo reaches, slider ticks included. */
+export const getMaxCombo = (beatmap: Pick<Beatmap, 'mode' | 'objects'>) => getPerfectComboResults(beatmap).length;
+
+export const createScoringContext = (
+  beatmap: Beatmap,
+  version: ScoringVersion = 'v1',
+  modMultiplier = 1
+): ScoringContext => {
+  const perfect = getPerfectComboResults(beatmap);
+  return {
+    mode: beatmap.mode,
+    version,
+    difficultyMultiplier: getDifficultyMultiplier(beatmap),
+    modMultiplier,
+    totalJudgements: getTotalJudgements(beatmap),
+    maxCombo: perfect.length,
+    maxComboPortion: perfect.reduce((sum, result, i) => sum + getScoreValue(beatmap.mode, result) * (1 + (i + 1) / 10), 0)
+  };
+};
+
+/** Per-mode accuracy in percent, following the osu! formulas. */
+export const calculateAccuracy = (score: ScoreData, mode: GameMode) => {
+  const { countGeki, countKatu, count300, count100, count50, countMiss } = score;
+  switch (mode) {
+    case GameMode.TAIKO: {
+      const total = count300 + count100 + countMiss;
+      return total > 0 ? (count300 + count100 * 0.5) / total * 100 : 100;
+    }
+    case GameMode.CATCH: {
+      // 300 = fruits, 100 = droplets, 50 = tiny droplets, katu = missed tiny droplets
+      const total = count300 + count100 + count50 + countKatu + countMiss;
+      return total > 0 ? (count300 + count100 + count50) / total * 100 : 100;
+    }
+    case GameMode.MANIA: {
+      // geki = MAX, katu = 200
+      const total = countGeki + count300 + countKatu + count100 + count50 + countMiss;
+      return total > 0
+        ? ((countGeki + count300) * 300 + countKatu * 200 + count100 * 100 + count50 * 50) / (total * 300) * 100
+        : 100;
+    }
+    default: {
+      const total = count300 + count100 + count50 + countMiss;
+      return total > 0 ? (count300 * 300 + count100 * 100 + count50 * 50) / (total * 300) * 100 : 100;
+    }
+  }
+};
+
+/** Letter grade, by hit ratios in standard/taiko and by accuracy in catch/mania. */
+export const getGrade = (score: ScoreData, mode: GameMode): Grade => {
+  const silver = (score.mods & (Mod.Hidden | Mod.Flashlight)) !== 0;
+  let grade: Grade;
+
+  if (mode === GameMode.CATCH || mode === GameMode.MANIA) {
+    const acc = score.accuracy;
+    const [s, a, b, c] = mode === GameMode.CATCH ? [98, 94, 90, 85] : [95, 90, 80, 70];
+    if (acc >= 100) grade = 'SS';
+    else if (acc > s) grade = 'S';
+    else if (acc > a) grade = 'A';
+    else if (acc > b) grade = 'B';
+    else if (acc > c) grade = 'C';
+    else grade = 'D';
+  } else {
+    const total = score.count300 + score.count100 + score.count50 + score.countMiss;
+    const ratio300 = total > 0 ? score.count300 / total : 1;
+    const ratio50 = total > 0 ? score.count50 / total : 0;
+    const noMiss = score.countMiss === 0;
+    if (ratio300 === 1) grade = 'SS';
+    else if (ratio300 > 0.9 && ratio50 < 0.01 && noMiss) grade = 'S';
+    else if ((ratio300 > 0.8 && noMiss) || ratio300 > 0.9) grade = 'A';
+    else if ((ratio300 > 0.7 && noMiss) || ratio300 > 0.8) grade = 'B';
+    else if (ratio300 > 0.6) grade = 'C';
+    else grade = 'D';
+  }
+
+  if (silver && grade === 'SS') return 'XH';
+  if (silver && grade === 'S') return 'SH';
+  return grade;
+};
+
+const countJudgements = (score: ScoreData) =>
+  score.countGeki + score.countKatu + score.count300 + score.count100 + score.count50 + score.countMiss;
+
+const addCount = (score: ScoreData, mode: GameMode, result: HitResult): ScoreData => {
+  switch (result) {
+    case 'MAX': return { ...score, countGeki: score.countGeki + 1 };
+    case '300': return { ...score, count300: score.count300 + 1 };
+    case '200': return { ...score, countKatu: score.countKatu + 1 };
+    case '100': return { ...score, count100: score.count100 + 1 };
+    case '50': return { ...score, count50: score.count50 + 1 };
+    case 'miss': return { ...score, countMiss: score.countMiss + 1 };
+    case 'tinyDropletMiss': return mode === GameMode.CATCH ? { ...score, countKatu: score.countKatu + 1 } : { ...score };
+    default: return { ...score };
+  }
+};
+
+// ScoreV1 points for a single judgement, given the combo before it
+const getScoreV1Value = (state: ScoringState, ctx: ScoringContext, result: HitResult, comboBefore: number) => {
+  const value = getScoreValue(ctx.mode, result);
+  // Bonus and slider ticks are flat, combo doesn't multiply them
+  if (result === 'bonus' || result === 'sliderTick') return value;
+
+  switch (ctx.mode) {
+    case GameMode.MANIA: {
+      const perNote = MANIA_MAX_SCORE * ctx.modMultiplier * 0.5 / Math.max(1, ctx.totalJudgements);
+      const bonusValue = { MAX: 32, '300': 32, '200': 16, '100': 8, '50': 4 }[result as string] || 0;
+      return perNote * (value / 320) + perNote * (bonusValue * Math.sqrt(state.maniaBonus) / 320);
+    }
+    case GameMode.TAIKO: {
+      // Taiko caps the combo bonus at 100 combo
+      const comboSteps = Math.min(Math.floor(comboBefore / 10), 10);
+      return value + Math.floor(value * comboSteps * ctx.difficultyMultiplier * ctx.modMultiplier / 35);
+    }
+    case GameMode.CATCH: {
+      if (result === '50') return value;
+      return value + Math.floor(value * Math.max(0, comboBefore - 1) * ctx.difficultyMultiplier * ctx.modMultiplier / 25);
+    }
+    default:
+      return value + Math.floor(value * Math.max(0, comboBefore - 1) * ctx.difficultyMultiplier * ctx.modMultiplier / 25);
+  }
+};
+
+const getNextManiaBonus = (bonus: number, result: HitResult) => {
+  switch (result) {
+    case 'MAX': return Math.min(100, bonus + 2);
+    case '300': return Math.min(100, bonus + 1);
+    case '200': return Math.max(0, bonus - 8);
+    case '100': return Math.max(0, bonus - 24);
+    case '50': return Math.max(0, bonus - 44);
+    case 'miss': return 0;
+    default: return bonus;
+  }
+};
+
+const getScoreV2Total = (state: ScoringState, ctx: ScoringContext, score: ScoreData) => {
+  const comboRatio = ctx.maxComboPortion > 0 ? Math.min(1, state.comboPortion / ctx.maxComboPortion) : 1;
+  const judged = countJudgements(score);
+  const accuracy = calculateAccuracy(score, ctx.mode) / 100;
+  const judgedRatio = ctx.totalJudgements > 0 ? Math.min(1, judged / ctx.totalJudgements) : 1;
+  const total = SCORE_V2_MAX * SCORE_V2_COMBO_PORTION * comboRatio
+    + SCORE_V2_MAX * SCORE_V2_ACCURACY_PORTION * Math.pow(accuracy, 10) * judgedRatio;
+  return Math.round(total * ctx.modMultiplier + state.bonusScore);
+};
+
+/** Applies one judgement and returns the new state. Does not mutate its input. */
+export const applyHitResult = (state: ScoringState, result: HitResult, ctx: ScoringContext): ScoringState => {
+  const prev = state.score;
+  let score = addCount(prev, ctx.mode, result);
+
+  if (affectsCombo(ctx.mode, result)) {
+    const combo = breaksCombo(result) ? 0 : prev.combo + 1;
+    score = { ...score, combo, maxCombo: Math.max(prev.maxCombo, combo) };
+  }
+  score.accuracy = calculateAccuracy(score, ctx.mode);
+
+  const next: ScoringState = { ...state, score };
+
+  if (ctx.version === 'v2') {
+    if (result === 'bonus') next.bonusScore += getScoreValue(ctx.mode, result);
+    else if (!breaksCombo(result) && affectsCombo(ctx.mode, result)) {
+      next.comboPortion += getScoreValue(ctx.mode, result) * (1 + score.combo / 10);
+    }
+    score.totalScore = getScoreV2Total(next, ctx, score);
+  } else {
+    score.totalScore = prev.totalScore + Math.round(getScoreV1Value(state, ctx, result, prev.combo));
+    if (ctx.mode === GameMode.MANIA) next.maniaBonus = getNextManiaBonus(state.maniaBonus, result);
+  }
+
+  return next;
+};
@@ -0,0 +1,167 @@
+import JSZip from 'jszip';
+import { ManiaSkinConfig, SampleFile, SkinConfig, SkinData, SkinImage } from '../types';
+import { SAMPLE_REGEX } from './beatmapParser';
+import { parseColour, parseComboColours } from './colours';
+
+// Skins are .osk archives of element images, samples and a skin.ini. Every image is kept under its
+// osu! element name (path without extension or @2x, lower case), so GameCanvas can look up
+// "hitcircleoverlay", "score-0" or a custom "fonts/default-1" the same way.
+
+const IMAGE_REGEX = /\.(png|jpe?g)$/i;
+
+export const DEFAULT_SKIN_CONFIG: SkinConfig = {
+  name: '',
+  author: '',
+  cursorRotate: true,
+  cursorExpand: true,
+  cursorCentre: true,
+  hitCircleOverlayAboveNumber: true,
+  allowSliderBallTint: false,
+  sliderBallFlip: true,
+  animationFramerate: -1,
+  comboColours: [],
+  hitCirclePrefix: 'default',
+  hitCircleOverlap: -2,
+  scorePrefix: 'score',
+  scoreOverlap: 0,
+  comboPrefix: 'score',
+  comboOverlap: 0,
+  mania: []
+};
+
+const createManiaConfig = (keys: number): ManiaSkinConfig => ({
+  keys,
+  columnStart: 136,
+  columnWidth: Array(keys).fill(30),
+  hitPosition: 402,
+  images: {}
+});
+
+/** "Fonts\Default.png" -> "fonts/default", the form element names are stored in. */
+export const toElementName = (path: string) =>
+  path.trim().replace(/\\/g, '/').replace(/\.(png|jpe?g)$/i, '').replace(/@2x$/i, '').toLowerCase();
+
+const parseBool = (value: string) => value.trim() === '1' || value.trim().toLowerCase() === 'true';
+
+export const parseSkinIni = (content: string): SkinConfig => {
+  const config: SkinConfig = { ...DEFAULT_SKIN_CONFIG, mania: [] };
+  const colours: Record<string, string> = {};
+  let section = '';
+  let mania: ManiaSkinConfig | null = null;
+
+  for (let line of content.split(/\r?\n/)) {
+    line = line.trim();
+    if (!line || line.startsWith('//')) continue;
+    if (line.startsWith('[') && line.endsWith(']')) {
+      section = line.slice(1, -1);
+      // Every [Mania] section describes one key count
+      mania = null;
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim();
+    // Values may carry a trailing comment
+    const value = line.slice(separator + 1).split('//')[0].trim();
+
+    if (section === 'General') {
+      if (key === 'Name') config.name = value;
+      if (key === 'Author') config.author = value;
+      if (key === 'CursorRotate') config.cursorRotate = parseBool(value);
+      if (key === 'CursorExpand') config.cursorExpand = parseBool(value);
+      if (key === 'CursorCentre') config.cursorCentre = parseBool(value);
+      // osu! has always accepted the misspelt key as well
+      if (key === 'HitCircleOverlayAboveNumber' || key === 'HitCircleOverlayAboveNumer') config.hitCircleOverlayAboveNumber = parseBool(value);
+      if (key === 'AllowSliderBallTint') config.allowSliderBallTint = parseBool(value);
+      if (key === 'SliderBallFlip') config.sliderBallFlip = parseBool(value);
+      if (key === 'AnimationFramerate') config.animationFramerate = parseFloat(value) || -1;
+    }
+
+    if (section === 'Colours') colours[key] = value;
+
+    if (section === 'Fonts') {
+      if (key === 'HitCirclePrefix') config.hitCirclePrefix = toElementName(value);
+      if (key === 'HitCircleOverlap') config.hitCircleOverlap = parseInt(value) || 0;
+      if (key === 'ScorePrefix') config.scorePrefix = toElementName(value);
+      if (key === 'ScoreOverlap') config.scoreOverlap = parseInt(value) || 0;
+      if (key === 'ComboPrefix') config.comboPrefix = toElementName(value);
+      if (key === 'ComboOverlap') config.comboOverlap = parseInt(value) || 0;
+    }
+
+    if (section === 'Mania') {
+      if (key === 'Keys') {
+        mania = createManiaConfig(Math.max(1, Math.min(18, parseInt(value) || 4)));
+        config.mania.push(mania);
+        continue;
+      }
+      // Keys always comes first, anything before it has nothing to belong to
+      if (!mania) continue;
+      if (key === 'ColumnStart') mania.columnStart = parseFloat(value) || mania.columnStart;
+      if (key === 'HitPosition') mania.hitPosition = parseFloat(value) || mania.hitPosition;
+      if (key === 'ColumnWidth') {
+        value.split(',').forEach((width, i) => {
+          if (i < mania!.keys && !isNaN(parseFloat(width))) mania!.columnWidth[i] = parseFloat(width);
+        });
+      }
+      if (/^(Key|Note)Image\d+[DHLT]?$/i.test(key)) mania.images[key.toLowerCase()] = toElementName(value);
+    }
+  }
+
+  config.comboColours = parseComboColours(colours);
+  config.sliderBorder = parseColour(colours.SliderBorder || '') || undefined;
+  config.sliderTrackOverride = parseColour(colours.SliderTrackOverride || '') || undefined;
+  config.sliderBall = parseColour(colours.SliderBall || '') || undefined;
+  return config;
+};
+
+/** The [Mania] section for a key count, or osu!'s defaults when the skin has none. */
+export const getManiaConfig = (config: SkinConfig | undefined, keys: number): ManiaSkinConfig =>
+  config?.mania.find(m => m.keys === keys) || createManiaConfig(keys);
+
+/** Default note/key image of a column: 1 and 2 alternate in from both edges, S is the middle column of odd key counts. */
+export const getManiaColumnType = (keys: number, column: number) => {
+  if (keys % 2 === 1 && column === (keys - 1) / 2) return 'S';
+  const fromEdge = column < keys / 2 ? column : keys - 1 - column;
+  return fromEdge % 2 === 0 ? '1' : '2';
+};
+
+/**
+ * Element name of a mania note or key image, from KeyImage#/NoteImage# in skin.ini or the default
+ * "mania-note1" style names. `suffix` picks a variant: D for pressed keys, H/L/T for hold heads/bodies/tails.
+ */
+export const getManiaImageName = (config: ManiaSkinConfig, column: number, element: 'Key' | 'Note', suffix: '' | 'D' | 'H' | 'L' | 'T' = '') =>
+  config.images[`${element}Image${column}${suffix}`.toLowerCase()]
+  || `mania-${element}${getManiaColumnType(config.keys, column)}${suffix}`.toLowerCase();
+
+export const loadOsk = async (file: Blob): Promise<SkinData> => {
+  const zip = await JSZip.loadAsync(file);
+  const files = Object.keys(zip.files).filter(name => !zip.files[name].dir);
+
+  // Skins are often zipped with their folder, element names are relative to where skin.ini
+  // (or without one, the topmost image) is
+  const iniFile = files.find(f => f.toLowerCase().split('/').pop() === 'skin.ini');
+  const anchor = iniFile || files.filter(f => IMAGE_REGEX.test(f)).sort((a, b) => a.split('/').length - b.split('/').length)[0] || '';
+  const root = anchor.slice(0, anchor.lastIndexOf('/') + 1);
+  const config = iniFile ? parseSkinIni(await zip.files[iniFile].async('string')) : { ...DEFAULT_SKIN_CONFIG, mania: [] };
+
+  const images: Record<string, SkinImage> = {};
+  for (const name of files.filter(f => IMAGE_REGEX.test(f) && f.startsWith(root))) {
+    const element = toElementName(name.slice(root.length));
+    const scale = /@2x\.[^.]+$/i.test(name) ? 2 : 1;
+    // Prefer the @2x variant when both exist
+    if (images[element] && images[element].scale >= scale) continue;
+    if (images[element]) URL.revokeObjectURL(images[element].url);
+    images[element] = { url: URL.createObjectURL(await zip.files[name].async('blob')), scale };
+  }
+
+  const samples: SampleFile[] = [];
+  for (const name of files.filter(f => SAMPLE_REGEX.test(f))) {
+    samples.push({ name, data: await zip.files[name].async('arraybuffer') });
+  }
+  return { config, images, samples };
+};
+
+/** Frees the image URLs of a skin that is no longer used. */
+export const releaseSkin = (skin: SkinData) => {
+  Object.values(skin.images).forEach(image => URL.revokeObjectURL(image.url));
+};
@@ -0,0 +1,275 @@
+import { HitObject, SliderPath, Vec2, CurveType } from '../types';
+
+// Tolerances roughly match osu!stable's curve flattening
+const BEZIER_TOLERANCE = 0.25;
+const CIRCLE_TOLERANCE = 0.1;
+const CATMULL_DETAIL = 50;
+const MAX_BEZIER_DEPTH = 10;
+
+const dist = (a: Vec2, b: Vec2) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+
+// --- BEZIER ---
+const isFlatEnough = (points: Vec2[]) => {
+  for (let i = 1; i < points.length - 1; i++) {
+    const dx = points[i - 1].x - 2 * points[i].x + points[i + 1].x;
+    const dy = points[i - 1].y - 2 * points[i].y + points[i + 1].y;
+    if (dx * dx + dy * dy > BEZIER_TOLERANCE * BEZIER_TOLERANCE * 4) return false;
+  }
+  return true;
+};
+
+// De Casteljau split of a control polygon at t = 0.5
+const subdivide = (points: Vec2[]): [Vec2[], Vec2[]] => {
+  const left: Vec2[] = [];
+  const right: Vec2[] = [];
+  let mid = points.slice();
+  for (let i = 0; i < points.length; i++) {
+    left.push(mid[0]);
+    right.unshift(mid[mid.length - 1]);
+    const next: Vec2[] = [];
+    for (let j = 0; j < mid.length - 1; j++) {
+      next.push({ x: (mid[j].x + mid[j + 1].x) / 2, y: (mid[j].y + mid[j + 1].y) / 2 });
+    }
+    mid = next;
+  }
+  return [left, right];
+};
+
+const approximateBezierSegment = (points: Vec2[], out: Vec2[], depth = 0) => {
+  if (points.length < 2) return;
+  if (depth >= MAX_BEZIER_DEPTH || isFlatEnough(points)) {
+    // Skip the first point, the caller (or previous segment) has already emitted it
+    out.push(points[points.length - 1]);
+    return;
+  }
+  const [left, right] = subdivide(points);
+  approximateBezierSegment(left, out, depth + 1);
+  approximateBezierSegment(right, out, depth + 1);
+};
+
+const approximateBezier = (controlPoints: Vec2[]): Vec2[] => {
+  const out: Vec2[] = [controlPoints[0]];
+  let segmentStart = 0;
+  // Consecutive duplicate points ("red anchors") split the curve into independent segments
+  for (let i = 1; i <= controlPoints.length; i++) {
+    const isEnd = i === controlPoints.length;
+    const isAnchor = !isEnd && controlPoints[i].x === controlPoints[i - 1].x && controlPoints[i].y === controlPoints[i - 1].y;
+    if (isEnd || isAnchor) {
+      const segment = controlPoints.slice(segmentStart, i);
+      if (segment.length === 2) out.push(segment[1]);
+      else approximateBezierSegment(segment, out);
+      segmentStart = i;
+    }
+  }
+  return out;
+};
+
+// --- PERFECT CIRCLE ---
+const approximateCircle = (controlPoints: Vec2[]): Vec2[] | null => {
+  const [a, b, c] = controlPoints;
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  // Collinear points have no circumcircle
+  if (Math.abs(d) < 1e-3) return null;
+
+  const aSq = a.x * a.x + a.y * a.y;
+  const bSq = b.x * b.x + b.y * b.y;
+  const cSq = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (aSq * (b.y - c.y) + bSq * (c.y - a.y) + cSq * (a.y - b.y)) / d,
+    y: (aSq * (c.x - b.x) + bSq * (a.x - c.x) + cSq * (b.x - a.x)) / d
+  };
+  const radius = dist(a, center);
+
+  const startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+  let endAngle = Math.atan2(c.y - center.y, c.x - center.x);
+  while (endAngle < startAngle) endAngle += Math.PI * 2;
+
+  // Go the other way round if the middle point is not on the counter-clockwise arc
+  let direction = 1;
+  let range = endAngle - startAngle;
+  const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  if (cross < 0) {
+    direction = -1;
+    range = Math.PI * 2 - range;
+  }
+
+  const steps = radius * 2 <= CIRCLE_TOLERANCE
+    ? 2
+    : Math.max(2, Math.ceil(range / (2 * Math.acos(1 - CIRCLE_TOLERANCE / radius))));
+
+  const out: Vec2[] = [];
+  for (let i = 0; i < steps; i++) {
+    const theta = startAngle + direction * (i / (steps - 1)) * range;
+    out.push({ x: center.x + Math.cos(theta) * radius, y: center.y + Math.sin(theta) * radius });
+  }
+  return out;
+};
+
+// --- CATMULL-ROM ---
+const catmullPoint = (v1: Vec2, v2: Vec2, v3: Vec2, v4: Vec2, t: number): Vec2 => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return {
+    x: 0.5 * (2 * v2.x + (-v1.x + v3.x) * t + (2 * v1.x - 5 * v2.x + 4 * v3.x - v4.x) * t2 + (-v1.x + 3 * v2.x - 3 * v3.x + v4.x) * t3),
+    y: 0.5 * (2 * v2.y + (-v1.y + v3.y) * t + (2 * v1.y - 5 * v2.y + 4 * v3.y - v4.y) * t2 + (-v1.y + 3 * v2.y - 3 * v3.y + v4.y) * t3)
+  };
+};
+
+const approximateCatmull = (controlPoints: Vec2[]): Vec2[] => {
+  const out: Vec2[] = [];
+  const n = controlPoints.length;
+  for (let i = 0; i < n - 1; i++) {
+    const v1 = i > 0 ? controlPoints[i - 1] : controlPoints[i];
+    const v2 = controlPoints[i];
+    const v3 = i < n - 1 ? controlPoints[i + 1] : { x: v2.x * 2 - v1.x, y: v2.y * 2 - v1.y };
+    const v4 = i < n - 2 ? controlPoints[i + 2] : { x: v3.x * 2 - v2.x, y: v3.y * 2 - v2.y };
+    for (let c = 0; c < CATMULL_DETAIL; c++) {
+      out.push(catmullPoint(v1, v2, v3, v4, c / CATMULL_DETAIL));
+    }
+  }
+  out.push(controlPoints[n - 1]);
+  return out;
+};
+
+// Cuts (or extends) the flattened curve so its arc length equals pixelLength
+const trimToLength = (points: Vec2[], pixelLength: number): SliderPath => {
+  const out: Vec2[] = [points[0]];
+  const cumulativeLength: number[] = [0];
+  let total = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const segLen = dist(points[i - 1], points[i]);
+    if (segLen === 0) continue;
+    if (total + segLen >= pixelLength) {
+      const f = (pixelLength - total) / segLen;
+      out.push({ x: points[i - 1].x + (points[i].x - points[i - 1].x) * f, y: points[i - 1].y + (points[i].y - points[i - 1].y) * f });
+      cumulativeLength.push(pixelLength);
+      return { points: out, cumulativeLength };
+    }
+    total += segLen;
+    out.push(points[i]);
+    cumulativeLength.push(total);
+  }
+
+  // Curve is shorter than pixelLength: extend in the direction of the last segment like stable does.
+  // An unknown length (Infinity) keeps the curve as it is.
+  if (out.length >= 2 && total < pixelLength && Number.isFinite(pixelLength)) {
+    const a = out[out.length - 2];
+    const b = out[out.length - 1];
+    const segLen = dist(a, b);
+    const f = (pixelLength - total) / segLen;
+    out.push({ x: b.x + (b.x - a.x) * f, y: b.y + (b.y - a.y) * f });
+    cumulativeLength.push(pixelLength);
+  }
+  return { points: out, cumulativeLength };
+};
+
+/**
+ * Flattens the control points of a slider into a polyline that follows the real curve
+ * and is trimmed to the slider's pixelLength.
+ */
+export const computeSliderPath = (curveType: CurveType, controlPoints: Vec2[], pixelLength: number): SliderPath => {
+  if (controlPoints.length < 2) {
+    return { points: controlPoints.slice(), cumulativeLength: controlPoints.map(() => 0) };
+  }
+
+  let flattened: Vec2[];
+  switch (curveType) {
+    case 'L':
+      flattened = controlPoints;
+      break;
+    case 'P':
+      flattened = (controlPoints.length === 3 && approximateCircle(controlPoints)) || approximateBezier(controlPoints);
+      break;
+    case 'C':
+      flattened = approximateCatmull(controlPoints);
+      break;
+    default:
+      flattened = approximateBezier(controlPoints);
+  }
+
+  // Maps without a (valid) length use the curve's own
+  return trimToLength(flattened, pixelLength > 0 && Number.isFinite(pixelLength) ? pixelLength : Infinity);
+};
+
+export const getPathLength = (path: SliderPath) => path.cumulativeLength[path.cumulativeLength.length - 1] || 0;
+
+/** Position along the path at the given progress (0 = head, 1 = end of the first slide), by arc length. */
+export const getPathPosition = (path: SliderPath, progress: number): Vec2 => {
+  const { points, cumulativeLength } = path;
+  if (points.length === 1) return points[0];
+  const target = Math.max(0, Math.min(1, progress)) * getPathLength(path);
+
+  let lo = 0;
+  let hi = cumulativeLength.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulativeLength[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo === 0) return points[0];
+
+  const segStart = cumulativeLength[lo - 1];
+  const segLen = cumulativeLength[lo] - segStart;
+  const f = segLen > 0 ? (target - segStart) / segLen : 0;
+  return {
+    x: points[lo - 1].x + (points[lo].x - points[lo - 1].x) * f,
+    y: points[lo - 1].y + (points[lo].y - points[lo - 1].y) * f
+  };
+};
+
+/** Progress along the path at a point in time, taking repeats into account (0..1, bouncing). */
+export const getSliderProgress = (obj: HitObject, time: number) => {
+  const slides = obj.slides || 1;
+  const slideDuration = (obj.endTime - obj.time) / slides;
+  if (slideDuration <= 0) return 0;
+  const elapsed = Math.max(0, Math.min(obj.endTime - obj.time, time - obj.time));
+  const slideIndex = Math.min(slides - 1, Math.floor(elapsed / slideDuration));
+  const slideProg = (elapsed - slideIndex * slideDuration) / slideDuration;
+  return slideIndex % 2 === 1 ? 1 - slideProg : slideProg;
+};
+
+/** Slider ball position at the given time in osu! pixels. */
+export const getSliderPositionAt = (obj: HitObject, time: number): Vec2 => {
+  if (!obj.sliderPath) return { x: obj.x, y: obj.y };
+  return getPathPosition(obj.sliderPath, getSliderProgress(obj, time));
+};
+
+/** Position where the slider ends, which is the head for an even number of slides. */
+export const getSliderEndPosition = (obj: HitObject): Vec2 => {
+  if (!obj.sliderPath) return { x: obj.x, y: obj.y };
+  return getPathPosition(obj.sliderPath, (obj.slides || 1) % 2 === 0 ? 0 : 1);
+};
+
+export interface SliderEvent {
+  type: 'tick' | 'repeat' | 'tail';
+  time: number;
+  // Index into edgeSounds/edgeSets for repeats and the tail
+  edge: number;
+}
+
+// Ticks closer than this to the end of a span are dropped
+const TICK_MIN_DISTANCE_FROM_END = 10;
+
+/** Ticks, repeats and the tail of a slider in time order. */
+export const getSliderEvents = (obj: HitObject): SliderEvent[] => {
+  const slides = obj.slides || 1;
+  const spanDuration = (obj.endTime - obj.time) / slides;
+  const events: SliderEvent[] = [];
+  if (spanDuration <= 0) return [{ type: 'tail', time: obj.endTime, edge: slides }];
+
+  for (let span = 0; span < slides; span++) {
+    const spanStart = obj.time + span * spanDuration;
+    const ticks: number[] = [];
+    if (obj.tickInterval && obj.tickInterval > 0) {
+      for (let offset = obj.tickInterval; offset < spanDuration - TICK_MIN_DISTANCE_FROM_END; offset += obj.tickInterval) {
+        // Reversed spans pass the same tick positions in the opposite order
+        ticks.push(span % 2 === 0 ? offset : spanDuration - offset);
+      }
+    }
+    ticks.sort((a, b) => a - b).forEach(offset => events.push({ type: 'tick', time: spanStart + offset, edge: span }));
+    if (span < slides - 1) events.push({ type: 'repeat', time: spanStart + spanDuration, edge: span + 1 });
+  }
+  events.push({ type: 'tail', time: obj.endTime, edge: slides });
+  return events;
+};
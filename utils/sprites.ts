@@ -0,0 +1,37 @@
+import { SkinConfig, SkinImage } from '../types';
+
+// A small sprite layer for short-lived canvas effects like judgement bursts, plus the frame lookup
+// animated skin elements share. Sprites are placed in canvas pixels and timed in song time.
+
+export interface Sprite {
+  x: number;
+  y: number;
+  startTime: number;
+  duration: number;
+  // Skin frames to play, empty when the skin has none and `fallback` draws the sprite instead
+  frames: string[];
+  loop: boolean;
+  // Scale and opacity over the sprite's life, progress goes from 0 to 1
+  scale: (progress: number) => number;
+  alpha: (progress: number) => number;
+  fallback: (ctx: CanvasRenderingContext2D, x: number, y: number, progress: number) => void;
+}
+
+/** Frames of an animated element (name-0, name-1, ..., sliderb has no dash), or just the still image. */
+export const getAnimationFrames = (images: Record<string, SkinImage> | undefined, name: string, separator = '-'): string[] => {
+  const frames: string[] = [];
+  while (images?.[`${name}${separator}${frames.length}`]) frames.push(`${name}${separator}${frames.length}`);
+  if (frames.length > 0) return frames;
+  return images?.[name] ? [name] : [];
+};
+
+/** Frame shown `elapsed` ms into an animation. Animations that don't loop hold their last frame. */
+export const getAnimationFrame = (frames: string[], elapsed: number, config: SkinConfig, loop = true): string | undefined => {
+  if (frames.length <= 1) return frames[0];
+  const framerate = config.animationFramerate > 0 ? config.animationFramerate : frames.length;
+  const index = Math.floor(Math.max(0, elapsed) / 1000 * framerate);
+  return frames[loop ? index % frames.length : Math.min(index, frames.length - 1)];
+};
+
+/** Sprites still showing at `time`. */
+export const pruneSprites = (sprites: Sprite[], time: number) => sprites.filter(sprite => time < sprite.startTime + sprite.duration);
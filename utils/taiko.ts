@@ -0,0 +1,36 @@
+import { HitObject, HitSound } from '../types';
+import { difficultyRange } from './judgement';
+
+// osu!taiko turns sliders into drumrolls and spinners into swells. Drumroll ticks and swell hits only
+// give bonus score, the notes themselves are judged GREAT/OK/MISS (reported as 300/100/miss).
+
+// Time after hitting a big note in which the other key of its colour counts for the bonus
+export const TAIKO_STRONG_HIT_WINDOW = 30;
+
+// Swells need this many hits per second at OD 0/5/10, times the hit multiplier
+const SWELL_HIT_MULTIPLIER = 1.65;
+
+/** Rim notes (kat) are the ones with a whistle or clap, everything else is a centre note (don). */
+export const isTaikoRim = (obj: HitObject) => (obj.hitSound & (HitSound.Whistle | HitSound.Clap)) !== 0;
+
+/** Big notes (and big drumrolls) have a finish hitsound. Swells have no big variant. */
+export const isTaikoStrong = (obj: HitObject) => (obj.hitSound & HitSound.Finish) !== 0;
+
+/** ms between drumroll ticks: a quarter beat, or a third on maps with tick rate 3. */
+export const getDrumrollTickSpacing = (obj: HitObject, sliderTickRate = 1) => {
+  const beatLength = (obj.tickInterval || 0) * sliderTickRate;
+  return beatLength / (sliderTickRate === 3 ? 3 : 4);
+};
+
+/** Number of ticks in a drumroll, from its start up to (and about) its end. */
+export const getDrumrollTickCount = (obj: HitObject, sliderTickRate = 1) => {
+  const spacing = getDrumrollTickSpacing(obj, sliderTickRate);
+  if (spacing <= 0) return 1;
+  let count = 0;
+  for (let t = obj.time; t < obj.endTime + spacing / 2; t += spacing) count++;
+  return count;
+};
+
+/** Hits a swell needs before its end, alternating centre and rim. */
+export const getSwellRequiredHits = (obj: HitObject, overallDifficulty: number) =>
+  Math.max(1, Math.floor((obj.endTime - obj.time) / 1000 * difficultyRange(overallDifficulty, 3, 5, 7.5) * SWELL_HIT_MULTIPLIER));
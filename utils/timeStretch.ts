@@ -0,0 +1,138 @@
+// WSOLA (waveform similarity overlap-add) time stretching, used to change the song
+// speed for DT/HT without changing its pitch. AudioBufferSourceNode.playbackRate
+// always shifts pitch, so the stretched buffer is rendered in a worker before the play
+// starts and cached.
+
+const FRAME_SIZE = 2048;
+const HOP_OUT = FRAME_SIZE / 2;
+const SEARCH_RADIUS = 256;
+const SEARCH_STEP = 2;
+// Only every n-th sample is used when comparing waveforms, plenty for finding the best offset
+const CORRELATION_STEP = 8;
+
+const cache = new WeakMap<AudioBuffer, Map<number, Promise<AudioBuffer>>>();
+
+let stretchWorker: Worker | null = null;
+let nextStretchJob = 0;
+
+const createWindow = () => {
+  // Periodic Hann window, sums to 1 at 50% overlap
+  const w = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) w[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME_SIZE);
+  return w;
+};
+
+const mixDown = (channels: Float32Array[]) => {
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach(data => {
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / channels.length;
+  });
+  return mono;
+};
+
+// Picks, for every output frame, the input position that best continues the previous frame
+const findFramePositions = (mono: Float32Array, rate: number, frameCount: number) => {
+  const positions = new Int32Array(frameCount);
+  const hopIn = HOP_OUT * rate;
+  const maxPos = Math.max(0, mono.length - FRAME_SIZE);
+  // Frame k is centred on output sample (k + 1) * HOP_OUT, which maps to input sample (k + 1) * hopIn
+  const nominalAt = (k: number) => Math.max(0, Math.min(maxPos, Math.round((k + 1) * hopIn - HOP_OUT)));
+  positions[0] = nominalAt(0);
+
+  for (let k = 1; k < frameCount; k++) {
+    const nominal = nominalAt(k);
+    // Where the previous frame's waveform would naturally continue
+    const natural = positions[k - 1] + HOP_OUT;
+    let best = nominal;
+    let bestScore = -Infinity;
+
+    if (natural + HOP_OUT < mono.length) {
+      for (let offset = -SEARCH_RADIUS; offset <= SEARCH_RADIUS; offset += SEARCH_STEP) {
+        const candidate = nominal + offset;
+        if (candidate < 0 || candidate > maxPos) continue;
+        let score = 0;
+        for (let i = 0; i < HOP_OUT; i += CORRELATION_STEP) score += mono[candidate + i] * mono[natural + i];
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+    positions[k] = best;
+  }
+  return positions;
+};
+
+/** Stretched copies of the channels that play `rate` times faster at the original pitch. */
+export const stretchChannels = (channels: Float32Array[], rate: number): Float32Array[] => {
+  const length = channels[0].length;
+  const outLength = Math.ceil(length / rate);
+  const frameCount = Math.ceil(outLength / HOP_OUT);
+  const hann = createWindow();
+  const positions = findFramePositions(mixDown(channels), rate, frameCount);
+
+  return channels.map(input => {
+    const output = new Float32Array(outLength);
+    for (let k = 0; k < frameCount; k++) {
+      const inStart = positions[k];
+      const outStart = k * HOP_OUT;
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        const o = outStart + i;
+        const s = inStart + i;
+        if (o >= outLength || s >= input.length) break;
+        output[o] += input[s] * hann[i];
+      }
+    }
+    return output;
+  });
+};
+
+// Runs stretchChannels in a worker, or on the main thread if workers aren't available
+const stretchOffThread = async (channels: Float32Array[], rate: number): Promise<Float32Array[]> => {
+  try {
+    if (!stretchWorker) stretchWorker = new Worker(new URL('./timeStretchWorker.ts', import.meta.url), { type: 'module' });
+    const worker = stretchWorker;
+    const id = nextStretchJob++;
+    return await new Promise<Float32Array[]>((resolve, reject) => {
+      const onMessage = (e: MessageEvent<{ id: number; channels: Float32Array[] }>) => {
+        if (e.data.id !== id) return;
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        resolve(e.data.channels);
+      };
+      const onError = (e: ErrorEvent) => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        reject(e);
+      };
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      worker.postMessage({ id, channels, rate });
+    });
+  } catch (e) {
+    console.warn('Time stretch worker unavailable, stretching on the main thread', e);
+    stretchWorker = null;
+    return stretchChannels(channels, rate);
+  }
+};
+
+/** A copy of the buffer that plays `rate` times faster at the original pitch, made once per buffer and rate. */
+export const timeStretch = (ctx: BaseAudioContext, buffer: AudioBuffer, rate: number): Promise<AudioBuffer> => {
+  if (rate === 1) return Promise.resolve(buffer);
+  const cached = cache.get(buffer)?.get(rate);
+  if (cached) return cached;
+
+  // The worker gets copies, the decoded song itself stays playable
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+  const stretched = stretchOffThread(channels, rate).then(data => {
+    const out = ctx.createBuffer(data.length, data[0].length, buffer.sampleRate);
+    data.forEach((channel, c) => out.getChannelData(c).set(channel));
+    return out;
+  });
+  // A failed stretch can be tried again
+  stretched.catch(() => cache.get(buffer)?.delete(rate));
+
+  if (!cache.has(buffer)) cache.set(buffer, new Map());
+  cache.get(buffer)!.set(rate, stretched);
+  return stretched;
+};
@@ -0,0 +1,9 @@
+import { stretchChannels } from './timeStretch';
+
+// Time-stretches songs off the main thread so starting a DT/HT play doesn't freeze the UI
+
+self.onmessage = (e: MessageEvent<{ id: number; channels: Float32Array[]; rate: number }>) => {
+  const { id, channels, rate } = e.data;
+  const stretched = stretchChannels(channels, rate);
+  (self as unknown as Worker).postMessage({ id, channels: stretched }, stretched.map(channel => channel.buffer));
+};